@@ -6,6 +6,15 @@ import helmet from "helmet";
 import authRouter from "./routes/auth";
 import listingsRouter from "./routes/listings";
 import webhooksRouter from "./routes/webhooks";
+import bookingRequestsRouter from "./routes/bookingRequests";
+import reservationsRouter from "./routes/reservations";
+import adminRouter from "./routes/admin";
+import jobsRouter from "./routes/jobs";
+import syncRouter from "./routes/sync";
+import savedSearchesRouter from "./routes/savedSearches";
+import favoritesRouter from "./routes/favorites";
+import shortlistsRouter from "./routes/shortlists";
+import conversationsRouter from "./routes/conversations";
 
 const app = express();
 
@@ -28,6 +37,15 @@ app.get("/health", (_req, res) => {
 app.use("/auth", authRouter);
 app.use("/listings", listingsRouter);
 app.use("/webhooks", webhooksRouter);
+app.use("/booking-requests", bookingRequestsRouter);
+app.use("/reservations", reservationsRouter);
+app.use("/admin", adminRouter);
+app.use("/jobs", jobsRouter);
+app.use("/sync", syncRouter);
+app.use("/saved-searches", savedSearchesRouter);
+app.use("/favorites", favoritesRouter);
+app.use("/shortlists", shortlistsRouter);
+app.use("/conversations", conversationsRouter);
 
 const port = Number.parseInt(process.env.PORT ?? "3000", 10) || 3000;
 
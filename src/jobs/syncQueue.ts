@@ -1,7 +1,27 @@
-import Queue from "bull";
+import Queue, { Job, JobOptions } from "bull";
+import { DeadLetterJob } from "@prisma/client";
 import { prisma } from "../lib/prisma";
-import { syncAllListingsForHost, syncListingByGuestyId } from "../services/listingSync";
-import { syncCalendarForListing } from "../services/calendarSync";
+import {
+  ListingSyncMode,
+  refreshListingAmenityKeys,
+  syncAllListingsForHost,
+  syncListingByGuestyId,
+} from "../services/listingSync";
+import {
+  getCalendarSweepConcurrency,
+  planCalendarSweep,
+  syncCalendarForListing,
+} from "../services/calendarSync";
+import { expireBookingRequest } from "../services/bookingRequests";
+import {
+  recordDeadLetterJob,
+  reopenDeadLetterJob,
+  resolveDeadLetterJob,
+} from "../services/deadLetterJobs";
+import { trackSyncRun } from "../services/syncRuns";
+import { evaluateSavedSearches } from "../services/savedSearches";
+import { flagFavoriteChanges } from "../services/favorites";
+import { refreshListingSearchDocuments } from "../services/listingTextSearch";
 
 const redisUrl = process.env.REDIS_URL;
 
@@ -14,40 +34,383 @@ if (!redisUrl) {
 export const syncQueue = new Queue("sync-jobs", redisUrl);
 
 type SyncListingsJobData = {
-  hostId: number;
+  hostId: string;
+  // Omitted: incremental, with a full sweep when one is due
+  mode?: ListingSyncMode;
 };
 
 type SyncSingleListingJobData = {
-  hostId: number;
+  hostId: string;
   guestyListingId: string;
 };
 
 type SyncCalendarJobData = {
-  listingId: number;
+  listingId: string;
 };
 
 type SyncAllHostsJobData = Record<string, never>;
 
+type SyncAllCalendarsJobData = Record<string, never>;
+
+type SyncHostCalendarsJobData = {
+  hostId: string;
+  // Least recently synced first
+  listingIds: string[];
+};
+
+type ExpireBookingRequestJobData = {
+  bookingRequestId: string;
+};
+
+type EvaluateSavedSearchesJobData = {
+  // Listings whose details or calendar just changed
+  listingIds: string[];
+};
+
+type FlagFavoriteChangesJobData = {
+  listingIds: string[];
+  // Set by calendar syncs that flipped at least one day's availability
+  availabilityChanged?: boolean;
+};
+
+type SyncJobDataByName = {
+  "sync-listings": SyncListingsJobData;
+  "sync-single-listing": SyncSingleListingJobData;
+  "sync-calendar": SyncCalendarJobData;
+  "sync-all-hosts": SyncAllHostsJobData;
+  "sync-all-calendars": SyncAllCalendarsJobData;
+  "sync-host-calendars": SyncHostCalendarsJobData;
+  "expire-booking-request": ExpireBookingRequestJobData;
+  "evaluate-saved-searches": EvaluateSavedSearchesJobData;
+  "flag-favorite-changes": FlagFavoriteChangesJobData;
+};
+
+export type SyncJobName = keyof SyncJobDataByName;
+
+// Retry policy per job type. Guesty calls back off exponentially so a throttled
+// or briefly unavailable API gets time to recover; after the last attempt the
+// job lands in the dead-letter table.
+const JOB_POLICIES: Record<SyncJobName, JobOptions> = {
+  "sync-listings": {
+    attempts: 5,
+    backoff: { type: "exponential", delay: 60 * 1000 },
+  },
+  "sync-single-listing": {
+    attempts: 5,
+    backoff: { type: "exponential", delay: 15 * 1000 },
+  },
+  "sync-calendar": {
+    attempts: 5,
+    backoff: { type: "exponential", delay: 15 * 1000 },
+  },
+  "sync-all-hosts": {
+    attempts: 3,
+    backoff: { type: "fixed", delay: 5 * 60 * 1000 },
+  },
+  "sync-all-calendars": {
+    attempts: 3,
+    backoff: { type: "fixed", delay: 5 * 60 * 1000 },
+  },
+  "sync-host-calendars": {
+    attempts: 3,
+    backoff: { type: "fixed", delay: 5 * 60 * 1000 },
+  },
+  "expire-booking-request": {
+    attempts: 5,
+    backoff: { type: "fixed", delay: 60 * 1000 },
+  },
+  "evaluate-saved-searches": {
+    attempts: 3,
+    backoff: { type: "exponential", delay: 30 * 1000 },
+  },
+  "flag-favorite-changes": {
+    attempts: 3,
+    backoff: { type: "exponential", delay: 30 * 1000 },
+  },
+};
+
+const COMMON_JOB_OPTIONS: JobOptions = {
+  removeOnComplete: 1000,
+};
+
+export function enqueueSyncJob<N extends SyncJobName>(
+  name: N,
+  data: SyncJobDataByName[N],
+  options: JobOptions = {}
+): Promise<Job> {
+  return syncQueue.add(name, data, {
+    ...COMMON_JOB_OPTIONS,
+    ...JOB_POLICIES[name],
+    ...options,
+  });
+}
+
+// Delay before a calendar that failed during a sweep is retried on its own.
+const SWEEP_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Queues a calendar sync for the listing, or returns the one already waiting
+ * (or delayed) for it. Bull also refuses a duplicate id while that job is
+ * running, and a running sync may have fetched the calendar already, so a
+ * request made meanwhile gets a job id of its own instead of being dropped.
+ */
+export async function enqueueCalendarSync(
+  listingId: string,
+  options: JobOptions = {}
+): Promise<Job> {
+  const jobId = `sync-calendar:${listingId}`;
+  const existing = await syncQueue.getJob(jobId);
+
+  if (existing) {
+    const state = await existing.getState();
+    if (state === "waiting" || state === "delayed") {
+      return existing;
+    }
+  }
+
+  return enqueueSyncJob(
+    "sync-calendar",
+    { listingId },
+    {
+      jobId: existing ? `${jobId}:${Date.now()}` : jobId,
+      // Frees the id for the next request once this one is done.
+      removeOnComplete: true,
+      removeOnFail: true,
+      ...options,
+    }
+  );
+}
+
+function isSyncJobName(name: string): name is SyncJobName {
+  return Object.prototype.hasOwnProperty.call(JOB_POLICIES, name);
+}
+
+type StoredJobData = Record<string, unknown>;
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((entry) => typeof entry === "string")
+  );
+}
+
+// Rebuilds a typed payload from a stored one, or null if it doesn't fit.
+const JOB_DATA_PARSERS: {
+  [N in SyncJobName]: (data: StoredJobData) => SyncJobDataByName[N] | null;
+} = {
+  "sync-listings": ({ hostId, mode }) =>
+    typeof hostId === "string" &&
+    (mode === undefined || mode === "full" || mode === "incremental")
+      ? { hostId, ...(mode ? { mode } : {}) }
+      : null,
+  "sync-single-listing": ({ hostId, guestyListingId }) =>
+    typeof hostId === "string" && typeof guestyListingId === "string"
+      ? { hostId, guestyListingId }
+      : null,
+  "sync-calendar": ({ listingId }) =>
+    typeof listingId === "string" ? { listingId } : null,
+  "sync-all-hosts": () => ({}),
+  "sync-all-calendars": () => ({}),
+  "sync-host-calendars": ({ hostId, listingIds }) =>
+    typeof hostId === "string" && isStringArray(listingIds)
+      ? { hostId, listingIds }
+      : null,
+  "expire-booking-request": ({ bookingRequestId }) =>
+    typeof bookingRequestId === "string" ? { bookingRequestId } : null,
+  "evaluate-saved-searches": ({ listingIds }) =>
+    isStringArray(listingIds) ? { listingIds } : null,
+  "flag-favorite-changes": ({ listingIds, availabilityChanged }) =>
+    isStringArray(listingIds) &&
+    (availabilityChanged === undefined ||
+      typeof availabilityChanged === "boolean")
+      ? {
+          listingIds,
+          ...(availabilityChanged ? { availabilityChanged } : {}),
+        }
+      : null,
+};
+
+function parseJobData<N extends SyncJobName>(
+  name: N,
+  data: unknown
+): SyncJobDataByName[N] | null {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return null;
+  }
+  return JOB_DATA_PARSERS[name](data as StoredJobData);
+}
+
+// Re-enqueue a dead-lettered job with its original payload and a fresh retry
+// budget. Null if it was already resolved or its payload no longer fits.
+export async function requeueDeadLetterJob(
+  deadJob: DeadLetterJob
+): Promise<Job | null> {
+  if (!isSyncJobName(deadJob.jobName)) {
+    return null;
+  }
+
+  const data = parseJobData(deadJob.jobName, deadJob.data);
+  if (!data) {
+    return null;
+  }
+
+  if (!(await resolveDeadLetterJob(deadJob.id, "retried"))) {
+    return null;
+  }
+
+  try {
+    return await enqueueSyncJob(deadJob.jobName, data);
+  } catch (err) {
+    await reopenDeadLetterJob(deadJob.id);
+    throw err;
+  }
+}
+
+// Follow-up work for listings a sync just touched: saved-search alerts and
+// change flags on favorites. One call covers a whole batch, so the saved
+// searches are evaluated once per sync rather than once per listing.
+async function enqueueListingChangeJobs(
+  listingIds: string[],
+  // Listings whose calendar flipped at least one day's availability
+  availabilityChangedIds: string[] = []
+): Promise<void> {
+  if (listingIds.length === 0) {
+    return;
+  }
+
+  await enqueueSyncJob("evaluate-saved-searches", { listingIds });
+
+  const flipped = new Set(availabilityChangedIds);
+  const unflipped = listingIds.filter((id) => !flipped.has(id));
+
+  if (flipped.size > 0) {
+    await enqueueSyncJob("flag-favorite-changes", {
+      listingIds: Array.from(flipped),
+      availabilityChanged: true,
+    });
+  }
+  if (unflipped.length > 0) {
+    await enqueueSyncJob("flag-favorite-changes", { listingIds: unflipped });
+  }
+}
+
+// Move jobs that have used up every attempt into the dead-letter table.
+syncQueue.on("failed", (job, err) => {
+  const maxAttempts = job.opts.attempts ?? 1;
+  if (job.attemptsMade < maxAttempts) {
+    return;
+  }
+
+  recordDeadLetterJob({
+    queue: syncQueue.name,
+    jobName: job.name,
+    jobId: job.id != null ? String(job.id) : null,
+    data: job.data ?? {},
+    error: err?.message ?? job.failedReason ?? "Unknown error",
+    stacktrace: job.stacktrace?.join("\n") || null,
+    attemptsMade: job.attemptsMade,
+  }).catch((recordErr) => {
+    // eslint-disable-next-line no-console
+    console.error("Failed to record dead-letter job", {
+      jobId: job.id,
+      error: recordErr,
+    });
+  });
+});
+
 // Process: sync all listings for a specific host
 syncQueue.process("sync-listings", async (job) => {
-  const { hostId } = job.data;
-  await syncAllListingsForHost(hostId);
+  const { hostId, mode } = job.data as SyncListingsJobData;
+  const listings = await trackSyncRun(
+    {
+      hostId,
+      type: "sync-listings",
+      mode: mode ?? null,
+      jobId: String(job.id),
+      attempt: job.attemptsMade + 1,
+    },
+    () => syncAllListingsForHost(hostId, mode ? { mode } : {}),
+    (listings) => ({ listingsUpserted: listings.length })
+  );
+
+  await enqueueListingChangeJobs(listings.map((listing) => listing.id));
 });
 
 // Process: sync a single listing from Guesty by listing ID
 syncQueue.process("sync-single-listing", async (job) => {
   const { hostId, guestyListingId } = job.data;
-  await syncListingByGuestyId(hostId, guestyListingId);
+  const listing = await trackSyncRun(
+    {
+      hostId,
+      type: "sync-single-listing",
+      jobId: String(job.id),
+      attempt: job.attemptsMade + 1,
+    },
+    () => syncListingByGuestyId(hostId, guestyListingId),
+    () => ({ listingsUpserted: 1 })
+  );
+
+  await enqueueListingChangeJobs([listing.id]);
 });
 
+type CalendarChange = {
+  // Some day was inserted, updated or deleted
+  changed: boolean;
+  availabilityChanged: boolean;
+};
+
+// Syncs one calendar; callers batch the follow-up jobs for what changed.
+async function syncListingCalendar(
+  listingId: string,
+  job: Job
+): Promise<CalendarChange> {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { hostId: true },
+  });
+
+  if (!listing) {
+    throw new Error(`Listing ${listingId} not found`);
+  }
+
+  const result = await trackSyncRun(
+    {
+      hostId: listing.hostId,
+      type: "sync-calendar",
+      listingId,
+      jobId: String(job.id),
+      attempt: job.attemptsMade + 1,
+    },
+    () => syncCalendarForListing(listingId),
+    (result) => ({ daysUpserted: result.inserted + result.updated })
+  );
+
+  return {
+    changed: result.inserted + result.updated + result.deleted > 0,
+    availabilityChanged: result.availabilityFlipped > 0,
+  };
+}
+
 // Process: sync calendar availability for a single listing
 syncQueue.process("sync-calendar", async (job) => {
-  const { listingId } = job.data;
-  await syncCalendarForListing(listingId);
+  const { listingId } = job.data as SyncCalendarJobData;
+  const change = await syncListingCalendar(listingId, job);
+
+  // Only days that changed can make a listing newly available.
+  if (change.changed) {
+    await enqueueListingChangeJobs(
+      [listingId],
+      change.availabilityChanged ? [listingId] : []
+    );
+  }
 });
 
 // Process: sync all connected hosts (used by recurring job)
 syncQueue.process("sync-all-hosts", async () => {
+  // Listings stored before search documents existed, or missed by a sync.
+  await refreshListingSearchDocuments();
+  // Listings whose amenity keys predate the current taxonomy.
+  await refreshListingAmenityKeys();
+
   const hosts = await prisma.host.findMany({
     where: {
       guestyAccountId: { not: null },
@@ -57,13 +420,97 @@ syncQueue.process("sync-all-hosts", async () => {
   });
 
   for (const host of hosts) {
-    await syncQueue.add("sync-listings", { hostId: host.id });
+    await enqueueSyncJob("sync-listings", { hostId: host.id });
+  }
+});
+
+// Process: refresh every active listing's calendar (used by recurring job)
+syncQueue.process("sync-all-calendars", async () => {
+  const hosts = await planCalendarSweep();
+
+  for (const { hostId, listingIds } of hosts) {
+    // A host whose previous sweep is still running keeps that one.
+    await enqueueSyncJob(
+      "sync-host-calendars",
+      { hostId, listingIds },
+      {
+        jobId: `sync-host-calendars:${hostId}`,
+        removeOnComplete: true,
+        removeOnFail: true,
+      }
+    );
   }
 });
 
+// Process: refresh one host's calendars, a few listings at a time
+syncQueue.process("sync-host-calendars", async (job) => {
+  const { listingIds } = job.data as SyncHostCalendarsJobData;
+  const remaining = [...listingIds];
+  const changedIds: string[] = [];
+  const availabilityChangedIds: string[] = [];
+
+  const worker = async () => {
+    for (
+      let listingId = remaining.shift();
+      listingId != null;
+      listingId = remaining.shift()
+    ) {
+      try {
+        const change = await syncListingCalendar(listingId, job);
+        if (change.changed) {
+          changedIds.push(listingId);
+        }
+        if (change.availabilityChanged) {
+          availabilityChangedIds.push(listingId);
+        }
+      } catch (err) {
+        // The sweep moves on; the listing gets its own job and retries.
+        // eslint-disable-next-line no-console
+        console.error("Error syncing calendar during sweep", {
+          listingId,
+          error: err,
+        });
+        await enqueueCalendarSync(listingId, { delay: SWEEP_RETRY_DELAY_MS });
+      }
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: getCalendarSweepConcurrency() }, worker)
+    );
+  } finally {
+    // One batch for the whole host, including listings synced before a
+    // failure.
+    await enqueueListingChangeJobs(changedIds, availabilityChangedIds);
+  }
+});
+
+// Process: expire a booking request nobody answered in time
+syncQueue.process("expire-booking-request", async (job) => {
+  const { bookingRequestId } = job.data;
+  await expireBookingRequest(bookingRequestId);
+});
+
+// Process: alert guests whose saved searches gained new matches
+syncQueue.process("evaluate-saved-searches", async (job) => {
+  const { listingIds } = job.data as EvaluateSavedSearchesJobData;
+  await evaluateSavedSearches(listingIds);
+});
+
+// Process: flag price / availability changes on favorited listings
+syncQueue.process("flag-favorite-changes", async (job) => {
+  const { listingIds, availabilityChanged } =
+    job.data as FlagFavoriteChangesJobData;
+  await flagFavoriteChanges(
+    listingIds,
+    availabilityChanged ? { availabilityChanged } : {}
+  );
+});
+
 // Register a recurring job every 6 hours to re-sync all connected hosts.
 // The combination of name + repeat + jobId ensures we only have one repeatable job.
-void syncQueue.add(
+void enqueueSyncJob(
   "sync-all-hosts",
   {},
   {
@@ -75,3 +522,15 @@ void syncQueue.add(
   }
 );
 
+// Calendars refresh on their own schedule, offset from the listing sync above.
+void enqueueSyncJob(
+  "sync-all-calendars",
+  {},
+  {
+    jobId: "sync-all-calendars-recurring",
+    repeat: {
+      cron: "30 */6 * * *", // every 6 hours, at half past (UTC)
+      tz: "UTC",
+    },
+  }
+);
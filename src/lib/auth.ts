@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import jwt, { JwtPayload } from "jsonwebtoken";
+
+const JWT_EXPIRY = "7d";
+
+export type AuthRole = "host" | "guest";
+
+export type AuthContext = {
+  role: AuthRole;
+  id: string;
+};
+
+type AuthPayload = JwtPayload & {
+  sub?: string;
+  role?: AuthRole;
+  hostId?: string;
+  guestId?: string;
+};
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET environment variable must be set");
+  }
+  return secret;
+}
+
+export function signAuthToken(role: AuthRole, id: string): string {
+  const payload =
+    role === "host"
+      ? { sub: id, role, hostId: id }
+      : { sub: id, role, guestId: id };
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: JWT_EXPIRY });
+}
+
+export function getAuthFromRequest(req: Request): AuthContext | null {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.slice("Bearer ".length).trim();
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as AuthPayload | string;
+    if (typeof decoded === "string") {
+      return null;
+    }
+
+    // Tokens issued before guest accounts existed carry no role and are host tokens.
+    const role: AuthRole = decoded.role === "guest" ? "guest" : "host";
+    const id =
+      (role === "host" ? decoded.hostId : decoded.guestId) ?? decoded.sub;
+
+    if (typeof id !== "string" || !id) {
+      return null;
+    }
+
+    return { role, id };
+  } catch {
+    return null;
+  }
+}
+
+export function getHostIdFromRequest(req: Request): string | null {
+  const auth = getAuthFromRequest(req);
+  return auth?.role === "host" ? auth.id : null;
+}
+
+export function getGuestIdFromRequest(req: Request): string | null {
+  const auth = getAuthFromRequest(req);
+  return auth?.role === "guest" ? auth.id : null;
+}
+
+function requireRole(...roles: AuthRole[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const auth = getAuthFromRequest(req);
+    if (!auth) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    if (!roles.includes(auth.role)) {
+      res.status(403).json({ error: "Forbidden" });
+      return;
+    }
+
+    // Attach to request for downstream handlers (using any to avoid extending Express types here)
+    (req as any)[auth.role === "host" ? "hostId" : "guestId"] = auth.id;
+    next();
+  };
+}
+
+export const requireHostAuth = requireRole("host");
+
+export const requireGuestAuth = requireRole("guest");
+
+// Either a host or a guest; exactly one of hostId / guestId gets set.
+export const requireUserAuth = requireRole("host", "guest");
+
+// Operator-only routes authenticate with a shared key rather than a user token.
+export function requireAdminAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const provided = req.headers["x-admin-key"];
+
+  if (!adminKey || typeof provided !== "string") {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const expected = Buffer.from(adminKey);
+  const actual = Buffer.from(provided);
+
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  next();
+}
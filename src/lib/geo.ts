@@ -0,0 +1,140 @@
+import { Prisma } from "@prisma/client";
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+export type LatLng = {
+  lat: number;
+  lng: number;
+};
+
+export type BoundingBox = {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+};
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function isValidLat(value: number): boolean {
+  return Number.isFinite(value) && value >= -90 && value <= 90;
+}
+
+function isValidLng(value: number): boolean {
+  return Number.isFinite(value) && value >= -180 && value <= 180;
+}
+
+// Parses "lat,lng".
+export function parseLatLng(value: unknown): LatLng | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const parts = value.split(",").map((part) => Number.parseFloat(part));
+  if (parts.length !== 2) {
+    return null;
+  }
+
+  const [lat, lng] = parts as [number, number];
+  if (!isValidLat(lat) || !isValidLng(lng)) {
+    return null;
+  }
+
+  return { lat, lng };
+}
+
+// Parses "minLng,minLat,maxLng,maxLat" (GeoJSON order). minLng > maxLng means
+// the box crosses the antimeridian.
+export function parseBoundingBox(value: unknown): BoundingBox | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const parts = value.split(",").map((part) => Number.parseFloat(part));
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [minLng, minLat, maxLng, maxLat] = parts as [
+    number,
+    number,
+    number,
+    number,
+  ];
+
+  if (
+    !isValidLng(minLng) ||
+    !isValidLng(maxLng) ||
+    !isValidLat(minLat) ||
+    !isValidLat(maxLat) ||
+    minLat > maxLat
+  ) {
+    return null;
+  }
+
+  return { minLat, minLng, maxLat, maxLng };
+}
+
+// Great-circle distance in kilometres.
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Smallest lat/lng box containing the circle, used to prefilter before haversine.
+export function boundingBoxAround(center: LatLng, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const minLat = Math.max(-90, center.lat - latDelta);
+  const maxLat = Math.min(90, center.lat + latDelta);
+
+  const cosLat = Math.cos(toRadians(center.lat));
+  const lngDelta =
+    cosLat > 1e-6 ? radiusKm / (KM_PER_DEGREE_LAT * cosLat) : 180;
+
+  if (lngDelta >= 180 || minLat === -90 || maxLat === 90) {
+    return { minLat, maxLat, minLng: -180, maxLng: 180 };
+  }
+
+  const wrap = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+  return {
+    minLat,
+    maxLat,
+    minLng: wrap(center.lng - lngDelta),
+    maxLng: wrap(center.lng + lngDelta),
+  };
+}
+
+// Same test as boundingBoxSql, for a point in memory.
+export function isInBoundingBox(point: LatLng, box: BoundingBox): boolean {
+  if (point.lat < box.minLat || point.lat > box.maxLat) {
+    return false;
+  }
+
+  return box.minLng <= box.maxLng
+    ? point.lng >= box.minLng && point.lng <= box.maxLng
+    : point.lng >= box.minLng || point.lng <= box.maxLng;
+}
+
+// Raw SQL condition restricting a listing (aliased as `l`) to a box.
+export function boundingBoxSql(box: BoundingBox): Prisma.Sql {
+  const lat = Prisma.sql`l."lat" BETWEEN ${box.minLat} AND ${box.maxLat}`;
+
+  if (box.minLng <= box.maxLng) {
+    return Prisma.sql`(${lat}
+      AND l."lng" BETWEEN ${box.minLng} AND ${box.maxLng})`;
+  }
+
+  return Prisma.sql`(${lat}
+    AND (l."lng" >= ${box.minLng} OR l."lng" <= ${box.maxLng}))`;
+}
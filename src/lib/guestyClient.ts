@@ -0,0 +1,63 @@
+import { Method } from "axios";
+import { getGuestyAccessToken } from "./guestyToken";
+import {
+  GuestyAuthError,
+  getGuestyBaseUrl,
+  sendGuestyRequest,
+} from "./guestyHttp";
+
+export type GuestyApiRequest = {
+  method?: Method;
+  path: string;
+  params?: Record<string, unknown>;
+  data?: unknown;
+};
+
+/**
+ * Calls the Guesty Open API on behalf of a host. A 401 triggers one forced
+ * token refresh and retry, in case the stored token was revoked early.
+ */
+export async function guestyRequest<T>(
+  hostId: string,
+  request: GuestyApiRequest
+): Promise<T> {
+  const send = (accessToken: string) =>
+    sendGuestyRequest<T>(
+      {
+        method: request.method ?? "GET",
+        url: `${getGuestyBaseUrl()}${request.path}`,
+        params: request.params,
+        data: request.data,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      { budgetKey: `host:${hostId}` }
+    );
+
+  const accessToken = await getGuestyAccessToken(hostId);
+
+  try {
+    return await send(accessToken);
+  } catch (err) {
+    if (!(err instanceof GuestyAuthError) || err.status !== 401) {
+      throw err;
+    }
+
+    const refreshed = await getGuestyAccessToken(hostId, {
+      forceRefresh: true,
+    });
+    return send(refreshed);
+  }
+}
+
+export function guestyGet<T>(
+  hostId: string,
+  path: string,
+  params?: Record<string, unknown>
+): Promise<T> {
+  return guestyRequest<T>(hostId, {
+    path,
+    ...(params ? { params } : {}),
+  });
+}
@@ -0,0 +1,236 @@
+import axios, { AxiosRequestConfig } from "axios";
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_REQUESTS_PER_MINUTE = 100;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 15 * 1000;
+// Longer Retry-After values are surfaced to the caller (e.g. the job's own
+// retry) rather than holding a worker for minutes.
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+export class GuestyApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null,
+    public readonly retryable: boolean,
+    public readonly responseBody?: unknown
+  ) {
+    super(message);
+    this.name = "GuestyApiError";
+  }
+}
+
+export class GuestyRateLimitError extends GuestyApiError {
+  constructor(
+    message: string,
+    public readonly retryAfterMs: number | null,
+    responseBody?: unknown
+  ) {
+    super(message, 429, true, responseBody);
+    this.name = "GuestyRateLimitError";
+  }
+}
+
+export class GuestyAuthError extends GuestyApiError {
+  constructor(message: string, status: number, responseBody?: unknown) {
+    super(message, status, false, responseBody);
+    this.name = "GuestyAuthError";
+  }
+}
+
+export class GuestyNotFoundError extends GuestyApiError {
+  constructor(message: string, responseBody?: unknown) {
+    super(message, 404, false, responseBody);
+    this.name = "GuestyNotFoundError";
+  }
+}
+
+export type GuestyRequestOptions = {
+  // Requests sharing a key share one per-minute budget (one key per Guesty account).
+  budgetKey?: string;
+  // Defaults from the HTTP method; non-idempotent requests only retry on 429.
+  idempotent?: boolean;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+const buckets = new Map<string, Bucket>();
+
+export function getGuestyBaseUrl(): string {
+  return (
+    process.env.GUESTY_API_BASE_URL ?? "https://api.guesty.com/api/v2"
+  );
+}
+
+function getTimeoutMs(): number {
+  const value = Number.parseInt(process.env.GUESTY_TIMEOUT_MS ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TIMEOUT_MS;
+}
+
+function getRequestsPerMinute(): number {
+  const value = Number.parseInt(
+    process.env.GUESTY_REQUESTS_PER_MINUTE ?? "",
+    10
+  );
+  return Number.isFinite(value) && value > 0
+    ? value
+    : DEFAULT_REQUESTS_PER_MINUTE;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket per account, refilled continuously at the per-minute rate.
+ * This is per process; with several workers each gets the full budget, so
+ * set GUESTY_REQUESTS_PER_MINUTE accordingly.
+ */
+async function acquireRequestSlot(key: string): Promise<void> {
+  const capacity = getRequestsPerMinute();
+  const refillPerMs = capacity / 60000;
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const now = Date.now();
+    const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+    );
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    await sleep(Math.ceil((1 - bucket.tokens) / refillPerMs));
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date.
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter.
+function backoffMs(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function toGuestyError(err: unknown, description: string): GuestyApiError {
+  if (err instanceof GuestyApiError) {
+    return err;
+  }
+
+  if (!axios.isAxiosError(err)) {
+    return new GuestyApiError(
+      `${description} failed: ${err instanceof Error ? err.message : String(err)}`,
+      null,
+      false
+    );
+  }
+
+  const status = err.response?.status ?? null;
+  const body = err.response?.data;
+
+  if (status == null) {
+    // Timeouts, resets and DNS failures never reached Guesty's handlers.
+    return new GuestyApiError(
+      `${description} failed: ${err.code ?? err.message}`,
+      null,
+      true
+    );
+  }
+
+  if (status === 429) {
+    return new GuestyRateLimitError(
+      `${description} was rate limited by Guesty`,
+      parseRetryAfter(err.response?.headers?.["retry-after"]),
+      body
+    );
+  }
+
+  if (status === 401 || status === 403) {
+    return new GuestyAuthError(
+      `${description} was rejected by Guesty (${status})`,
+      status,
+      body
+    );
+  }
+
+  if (status === 404) {
+    return new GuestyNotFoundError(`${description} was not found`, body);
+  }
+
+  return new GuestyApiError(
+    `${description} failed with status ${status}`,
+    status,
+    status >= 500,
+    body
+  );
+}
+
+/**
+ * Sends a request to Guesty with a timeout, the per-account request budget,
+ * and retries: idempotent requests retry on network errors, 429 and 5xx;
+ * everything retries on 429, which Guesty returns before doing any work.
+ */
+export async function sendGuestyRequest<T>(
+  config: AxiosRequestConfig,
+  options: GuestyRequestOptions = {}
+): Promise<T> {
+  const method = (config.method ?? "GET").toUpperCase();
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+  const description = `Guesty ${method} ${config.url ?? ""}`.trim();
+
+  for (let attempt = 0; ; attempt += 1) {
+    if (options.budgetKey) {
+      await acquireRequestSlot(options.budgetKey);
+    }
+
+    try {
+      const response = await axios.request<T>({
+        timeout: getTimeoutMs(),
+        ...config,
+      });
+      return response.data;
+    } catch (err) {
+      const error = toGuestyError(err, description);
+      const isRateLimit = error instanceof GuestyRateLimitError;
+      const canRetry =
+        attempt + 1 < MAX_ATTEMPTS &&
+        (isRateLimit || (idempotent && error.retryable));
+
+      if (!canRetry) {
+        throw error;
+      }
+
+      const retryAfterMs = isRateLimit ? error.retryAfterMs : null;
+      if (retryAfterMs != null && retryAfterMs > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+
+      await sleep(retryAfterMs ?? backoffMs(attempt));
+    }
+  }
+}
@@ -1,5 +1,5 @@
-import axios from "axios";
 import { prisma } from "./prisma";
+import { sendGuestyRequest } from "./guestyHttp";
 
 const TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
 
@@ -11,7 +11,15 @@ type GuestyTokenResponse = {
   expires_in?: number;
 };
 
-export async function getGuestyAccessToken(hostId: number): Promise<string> {
+export type GuestyAccessTokenOptions = {
+  // Skip the cached token, e.g. after Guesty rejected it with a 401.
+  forceRefresh?: boolean;
+};
+
+export async function getGuestyAccessToken(
+  hostId: string,
+  options: GuestyAccessTokenOptions = {}
+): Promise<string> {
   const host = await prisma.host.findUnique({
     where: { id: hostId },
   });
@@ -23,6 +31,7 @@ export async function getGuestyAccessToken(hostId: number): Promise<string> {
   const now = Date.now();
 
   if (
+    !options.forceRefresh &&
     host.guestyAccessToken &&
     host.guestyExpiresAt &&
     host.guestyExpiresAt.getTime() - now > TOKEN_EXPIRY_BUFFER_MS
@@ -55,11 +64,18 @@ export async function getGuestyAccessToken(hostId: number): Promise<string> {
     client_secret: clientSecret,
   });
 
-  const { data } = await axios.post<GuestyTokenResponse>(tokenUrl, params, {
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
+  // Not retried on network errors: the refresh token may rotate on success.
+  const data = await sendGuestyRequest<GuestyTokenResponse>(
+    {
+      method: "POST",
+      url: tokenUrl,
+      data: params,
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
     },
-  });
+    { idempotent: false }
+  );
 
   if (!data.access_token) {
     throw new Error("Guesty refresh response did not include an access_token");
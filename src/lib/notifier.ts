@@ -0,0 +1,73 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export type NotificationRecipient = {
+  guestId: string;
+  email: string;
+  name: string | null;
+};
+
+export type Notification = {
+  type: string;
+  to: NotificationRecipient;
+  subject: string;
+  text: string;
+  data: Record<string, unknown>;
+};
+
+export interface Notifier {
+  // Recorded on delivered notifications, e.g. "console" or "email"
+  readonly channel: string;
+  send(notification: Notification): Promise<void>;
+}
+
+export class ConsoleNotifier implements Notifier {
+  readonly channel = "console";
+
+  async send(notification: Notification): Promise<void> {
+    // eslint-disable-next-line no-console
+    console.log("Notification", {
+      type: notification.type,
+      to: notification.to.email,
+      subject: notification.subject,
+      text: notification.text,
+    });
+  }
+}
+
+// Appends one JSON line per notification; handy for local development.
+export class FileNotifier implements Notifier {
+  readonly channel = "file";
+
+  constructor(private readonly filePath: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const line = JSON.stringify({
+      sentAt: new Date().toISOString(),
+      ...notification,
+    });
+    await fs.appendFile(this.filePath, `${line}\n`);
+  }
+}
+
+let notifier: Notifier | null = null;
+
+// Replace the sink, e.g. with an email or push implementation at startup.
+export function setNotifier(next: Notifier): void {
+  notifier = next;
+}
+
+// NOTIFIER=file writes to NOTIFIER_FILE (default ./tmp/notifications.jsonl).
+export function getNotifier(): Notifier {
+  if (!notifier) {
+    notifier =
+      process.env.NOTIFIER === "file"
+        ? new FileNotifier(
+            process.env.NOTIFIER_FILE ??
+              path.join(process.cwd(), "tmp", "notifications.jsonl")
+          )
+        : new ConsoleNotifier();
+  }
+  return notifier;
+}
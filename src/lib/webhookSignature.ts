@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+
+// Reject deliveries whose timestamp is further than this from our clock.
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookVerification =
+  | { ok: true; eventId: string; timestamp: Date }
+  | { ok: false; reason: string };
+
+function firstHeader(
+  headers: IncomingHttpHeaders,
+  names: string[]
+): string | undefined {
+  for (const name of names) {
+    const value = headers[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first) {
+      return first;
+    }
+  }
+  return undefined;
+}
+
+function decodeSecret(secret: string): Buffer {
+  // Svix-style secrets are base64 with a `whsec_` prefix; anything else is used as-is.
+  return secret.startsWith("whsec_")
+    ? Buffer.from(secret.slice("whsec_".length), "base64")
+    : Buffer.from(secret, "utf8");
+}
+
+/**
+ * Verifies a Guesty webhook delivery. Guesty signs with the Svix scheme:
+ * base64(HMAC-SHA256(secret, `${id}.${timestamp}.${rawBody}`)), sent as one or
+ * more space-separated `v1,<signature>` entries.
+ */
+export function verifyGuestyWebhookSignature(
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders,
+  secret: string,
+  now: Date = new Date()
+): WebhookVerification {
+  const eventId = firstHeader(headers, ["svix-id", "webhook-id"]);
+  const timestampHeader = firstHeader(headers, [
+    "svix-timestamp",
+    "webhook-timestamp",
+  ]);
+  const signatureHeader = firstHeader(headers, [
+    "svix-signature",
+    "webhook-signature",
+  ]);
+
+  if (!eventId || !timestampHeader || !signatureHeader) {
+    return { ok: false, reason: "missing signature headers" };
+  }
+
+  const timestampSeconds = Number.parseInt(timestampHeader, 10);
+  if (!Number.isFinite(timestampSeconds)) {
+    return { ok: false, reason: "invalid timestamp" };
+  }
+
+  const skewSeconds = Math.abs(now.getTime() / 1000 - timestampSeconds);
+  if (skewSeconds > WEBHOOK_TOLERANCE_SECONDS) {
+    return { ok: false, reason: "stale timestamp" };
+  }
+
+  const expected = crypto
+    .createHmac("sha256", decodeSecret(secret))
+    .update(`${eventId}.${timestampHeader}.`)
+    .update(rawBody)
+    .digest();
+
+  const matches = signatureHeader.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    if (version !== "v1" || !signature) {
+      return false;
+    }
+
+    const provided = Buffer.from(signature, "base64");
+    return (
+      provided.length === expected.length &&
+      crypto.timingSafeEqual(provided, expected)
+    );
+  });
+
+  if (!matches) {
+    return { ok: false, reason: "signature mismatch" };
+  }
+
+  return { ok: true, eventId, timestamp: new Date(timestampSeconds * 1000) };
+}
@@ -0,0 +1,144 @@
+import { Router, Request } from "express";
+import { requireAdminAuth } from "../lib/auth";
+import {
+  WebhookEventFilter,
+  WebhookEventStatus,
+  listWebhookEvents,
+  replayWebhookEvent,
+  replayWebhookEvents,
+} from "../services/webhookEvents";
+import { createFailedJobsRouter } from "./failedJobs";
+
+const router = Router();
+
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = [
+  "received",
+  "processed",
+  "ignored",
+  "failed",
+];
+
+router.use(requireAdminAuth);
+
+function parseDateParam(value: unknown): Date | null | undefined {
+  if (value == null || value === "") {
+    return undefined;
+  }
+  const parsed = new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// Reads status/eventType/from/to from the query string or JSON body.
+function parseEventFilter(
+  source: Record<string, unknown>,
+  defaultStatus?: WebhookEventStatus
+): WebhookEventFilter | string {
+  const status = source.status ?? defaultStatus;
+  if (
+    status != null &&
+    !WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)
+  ) {
+    return `status must be one of ${WEBHOOK_EVENT_STATUSES.join(", ")}`;
+  }
+
+  const from = parseDateParam(source.from);
+  const to = parseDateParam(source.to);
+  if (from === null || to === null) {
+    return "from and to must be ISO dates";
+  }
+
+  return {
+    ...(status ? { status: status as WebhookEventStatus } : {}),
+    ...(typeof source.eventType === "string"
+      ? { eventType: source.eventType }
+      : {}),
+    ...(from ? { from } : {}),
+    ...(to ? { to } : {}),
+  };
+}
+
+function parseLimit(req: Request): number {
+  const limitParam =
+    typeof req.query.limit === "string" ? req.query.limit : undefined;
+  const limit = limitParam ? Number.parseInt(limitParam, 10) : 50;
+  return Math.min(200, Math.max(1, Number.isFinite(limit) ? limit : 50));
+}
+
+// Stored webhook events, failed ones by default
+router.get("/webhook-events", async (req, res) => {
+  try {
+    const filter = parseEventFilter(req.query, "failed");
+    if (typeof filter === "string") {
+      res.status(400).json({ error: filter });
+      return;
+    }
+
+    const events = await listWebhookEvents(filter, parseLimit(req));
+
+    res.json({ events });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /admin/webhook-events", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Replay every event matching a filter (failed events by default)
+router.post("/webhook-events/replay", async (req, res) => {
+  try {
+    const filter = parseEventFilter(req.body ?? {}, "failed");
+    if (typeof filter === "string") {
+      res.status(400).json({ error: filter });
+      return;
+    }
+
+    if (!filter.from && !filter.to) {
+      res
+        .status(400)
+        .json({ error: "from or to is required to replay a range" });
+      return;
+    }
+
+    const events = await replayWebhookEvents(filter);
+
+    res.json({
+      replayed: events.length,
+      failed: events.filter((event) => event.status === "failed").length,
+      events,
+    });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /admin/webhook-events/replay", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Replay a single event
+router.post("/webhook-events/:id/replay", async (req, res) => {
+  try {
+    const event = await replayWebhookEvent(req.params.id);
+
+    if (!event) {
+      res.status(404).json({ error: "Webhook event not found" });
+      return;
+    }
+
+    res.json({ event });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /admin/webhook-events/:id/replay", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Dead-lettered background jobs across all hosts; `?hostId=` narrows them
+router.use(
+  "/failed-jobs",
+  createFailedJobsRouter({
+    basePath: "/admin/failed-jobs",
+    hostScope: (req) =>
+      typeof req.query.hostId === "string" ? req.query.hostId : undefined,
+  })
+);
+
+export default router;
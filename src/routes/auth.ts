@@ -1,25 +1,17 @@
 import { Router } from "express";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import { prisma } from "../lib/prisma";
-import { syncQueue } from "../jobs/syncQueue";
+import { signAuthToken } from "../lib/auth";
+import { enqueueSyncJob } from "../jobs/syncQueue";
 
 const router = Router();
 
-const JWT_EXPIRY = "7d";
-
-function getJwtSecret(): string {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error("JWT_SECRET environment variable must be set");
-  }
-  return secret;
+function signHostJwt(hostId: string): string {
+  return signAuthToken("host", hostId);
 }
 
-function signHostJwt(hostId: string): string {
-  const secret = getJwtSecret();
-  const payload = { sub: hostId, hostId };
-  return jwt.sign(payload, secret, { expiresIn: JWT_EXPIRY });
+function signGuestJwt(guestId: string): string {
+  return signAuthToken("guest", guestId);
 }
 
 router.post("/register", async (req, res) => {
@@ -104,6 +96,89 @@ router.post("/login", async (req, res) => {
   }
 });
 
+router.post("/guests/register", async (req, res) => {
+  try {
+    const { email, password, name, phone } = req.body ?? {};
+
+    if (!email || !password) {
+      return res.status(400).json({ error: "email and password are required" });
+    }
+
+    const existing = await prisma.guest.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: "Email already registered" });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    const guest = await prisma.guest.create({
+      data: {
+        email,
+        name: name ?? null,
+        phone: phone ?? null,
+        passwordHash,
+      },
+    });
+
+    const token = signGuestJwt(guest.id);
+
+    return res.status(201).json({
+      token,
+      guest: {
+        id: guest.id,
+        email: guest.email,
+        name: guest.name,
+      },
+    });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in /auth/guests/register", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/guests/login", async (req, res) => {
+  try {
+    const { email, password } = req.body ?? {};
+
+    if (!email || !password) {
+      return res.status(400).json({ error: "email and password are required" });
+    }
+
+    const guest = await prisma.guest.findUnique({
+      where: { email },
+    });
+
+    if (!guest || !guest.passwordHash) {
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+
+    const valid = await bcrypt.compare(password, guest.passwordHash);
+    if (!valid) {
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+
+    const token = signGuestJwt(guest.id);
+
+    return res.json({
+      token,
+      guest: {
+        id: guest.id,
+        email: guest.email,
+        name: guest.name,
+      },
+    });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in /auth/guests/login", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 function getGuestyAuthUrl(): string {
   return process.env.GUESTY_AUTH_URL ?? "https://auth.guesty.com/oauth2/authorize";
 }
@@ -256,7 +331,7 @@ router.get("/guesty/callback", async (req, res) => {
     });
 
     // Queue initial listing sync for this host
-    void syncQueue.add("sync-listings", { hostId: host.id });
+    void enqueueSyncJob("sync-listings", { hostId: host.id });
 
     const jwtToken = signHostJwt(host.id);
 
@@ -0,0 +1,301 @@
+import { Router, Request, Response } from "express";
+import { BookingRequest } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import {
+  getGuestIdFromRequest,
+  requireGuestAuth,
+  requireHostAuth,
+} from "../lib/auth";
+import { enqueueSyncJob } from "../jobs/syncQueue";
+import { parseStayDate } from "../services/stayQuote";
+import {
+  BookingRequestError,
+  acceptCounterOffer,
+  approveBookingRequest,
+  cancelBookingRequest,
+  counterBookingRequest,
+  createBookingRequest,
+  declineBookingRequest,
+  isValidAccessToken,
+  toBookingRequestResponse,
+} from "../services/bookingRequests";
+
+const router = Router();
+
+function scheduleExpiry(request: BookingRequest): void {
+  // jobId includes the deadline so a counter offer or an approval schedules a
+  // fresh check.
+  void enqueueSyncJob(
+    "expire-booking-request",
+    { bookingRequestId: request.id },
+    {
+      jobId: `expire-booking-request:${request.id}:${request.expiresAt.getTime()}`,
+      delay: Math.max(0, request.expiresAt.getTime() - Date.now()),
+    }
+  );
+}
+
+function handleBookingError(
+  res: Response,
+  err: unknown,
+  context: string
+): void {
+  if (err instanceof BookingRequestError) {
+    res.status(err.status).json({
+      error: err.message,
+      ...(err.details !== undefined ? { reasons: err.details } : {}),
+    });
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.error(`Error in ${context}`, err);
+  res.status(500).json({ error: "Internal server error" });
+}
+
+// The guest may prove ownership with their account or with the access token.
+async function findRequestForGuest(
+  req: Request,
+  token: unknown
+): Promise<BookingRequest | null> {
+  const request = await prisma.bookingRequest.findUnique({
+    where: { id: req.params.id as string },
+  });
+
+  if (!request) {
+    return null;
+  }
+
+  const guestId = getGuestIdFromRequest(req);
+  if (guestId && request.guestId === guestId) {
+    return request;
+  }
+
+  return isValidAccessToken(request, token) ? request : null;
+}
+
+// Guest submits a request for dates (public)
+router.post("/", async (req, res) => {
+  try {
+    const { listingId, guests, message } = req.body ?? {};
+    const guestId = getGuestIdFromRequest(req);
+    const guest = guestId
+      ? await prisma.guest.findUnique({ where: { id: guestId } })
+      : null;
+    const guestName = req.body?.guestName ?? guest?.name;
+    const guestEmail = req.body?.guestEmail ?? guest?.email;
+    const startDate = parseStayDate(req.body?.startDate);
+    const endDate = parseStayDate(req.body?.endDate);
+
+    if (!listingId || !guestName || !guestEmail) {
+      res
+        .status(400)
+        .json({ error: "listingId, guestName and guestEmail are required" });
+      return;
+    }
+
+    if (!startDate || !endDate || endDate.getTime() <= startDate.getTime()) {
+      res
+        .status(400)
+        .json({ error: "startDate and endDate must be a valid date range" });
+      return;
+    }
+
+    if (guests != null && (!Number.isInteger(guests) || guests < 1)) {
+      res.status(400).json({ error: "guests must be a positive integer" });
+      return;
+    }
+
+    const request = await createBookingRequest({
+      listingId: String(listingId),
+      ...(guest ? { guestId: guest.id } : {}),
+      guestName: String(guestName),
+      guestEmail: String(guestEmail),
+      startDate,
+      endDate,
+      ...(guests != null ? { guests } : {}),
+      ...(message ? { message: String(message) } : {}),
+    });
+
+    scheduleExpiry(request);
+
+    // The access token is only ever returned here.
+    res.status(201).json({
+      bookingRequest: toBookingRequestResponse(request),
+      accessToken: request.accessToken,
+    });
+  } catch (err) {
+    handleBookingError(res, err, "POST /booking-requests");
+  }
+});
+
+// Requests made by the authenticated guest (protected)
+router.get("/mine", requireGuestAuth, async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+
+    const requests: BookingRequest[] = await prisma.bookingRequest.findMany({
+      where: { guestId },
+      orderBy: { createdAt: "desc" },
+      include: { listing: { select: { id: true, title: true } } },
+    });
+
+    res.json({ bookingRequests: requests.map(toBookingRequestResponse) });
+  } catch (err) {
+    handleBookingError(res, err, "GET /booking-requests/mine");
+  }
+});
+
+// Requests for the authenticated host's listings (protected)
+router.get("/host", requireHostAuth, async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+    const status =
+      typeof req.query.status === "string" ? req.query.status : undefined;
+
+    const requests: BookingRequest[] = await prisma.bookingRequest.findMany({
+      where: {
+        listing: { hostId },
+        ...(status ? { status } : {}),
+      },
+      orderBy: { createdAt: "desc" },
+      include: { listing: { select: { id: true, title: true } } },
+    });
+
+    res.json({ bookingRequests: requests.map(toBookingRequestResponse) });
+  } catch (err) {
+    handleBookingError(res, err, "GET /booking-requests/host");
+  }
+});
+
+router.post("/:id/approve", requireHostAuth, async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+    const note =
+      typeof req.body?.note === "string" ? req.body.note : undefined;
+
+    const request = await approveBookingRequest(
+      req.params.id as string,
+      hostId,
+      note
+    );
+
+    scheduleExpiry(request);
+
+    res.json({ bookingRequest: toBookingRequestResponse(request) });
+  } catch (err) {
+    handleBookingError(res, err, "POST /booking-requests/:id/approve");
+  }
+});
+
+router.post("/:id/decline", requireHostAuth, async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+    const note =
+      typeof req.body?.note === "string" ? req.body.note : undefined;
+
+    const request = await declineBookingRequest(
+      req.params.id as string,
+      hostId,
+      note
+    );
+
+    res.json({ bookingRequest: toBookingRequestResponse(request) });
+  } catch (err) {
+    handleBookingError(res, err, "POST /booking-requests/:id/decline");
+  }
+});
+
+router.post("/:id/counter", requireHostAuth, async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+    const startDate = parseStayDate(req.body?.startDate);
+    const endDate = parseStayDate(req.body?.endDate);
+    const total = req.body?.total;
+    const note =
+      typeof req.body?.note === "string" ? req.body.note : undefined;
+
+    if (!startDate || !endDate || endDate.getTime() <= startDate.getTime()) {
+      res
+        .status(400)
+        .json({ error: "startDate and endDate must be a valid date range" });
+      return;
+    }
+
+    if (total != null && (typeof total !== "number" || total <= 0)) {
+      res.status(400).json({ error: "total must be a positive number" });
+      return;
+    }
+
+    const request = await counterBookingRequest(
+      req.params.id as string,
+      hostId,
+      {
+        startDate,
+        endDate,
+        ...(total != null ? { total } : {}),
+        ...(note ? { note } : {}),
+      }
+    );
+
+    scheduleExpiry(request);
+
+    res.json({ bookingRequest: toBookingRequestResponse(request) });
+  } catch (err) {
+    handleBookingError(res, err, "POST /booking-requests/:id/counter");
+  }
+});
+
+// Guest views their request using their account or the access token
+router.get("/:id", async (req, res) => {
+  try {
+    const request = await findRequestForGuest(req, req.query.token);
+
+    if (!request) {
+      res.status(404).json({ error: "Booking request not found" });
+      return;
+    }
+
+    res.json({ bookingRequest: toBookingRequestResponse(request) });
+  } catch (err) {
+    handleBookingError(res, err, "GET /booking-requests/:id");
+  }
+});
+
+router.post("/:id/accept-counter", async (req, res) => {
+  try {
+    const found = await findRequestForGuest(req, req.body?.token);
+
+    if (!found) {
+      res.status(404).json({ error: "Booking request not found" });
+      return;
+    }
+
+    const request = await acceptCounterOffer(found);
+
+    scheduleExpiry(request);
+
+    res.json({ bookingRequest: toBookingRequestResponse(request) });
+  } catch (err) {
+    handleBookingError(res, err, "POST /booking-requests/:id/accept-counter");
+  }
+});
+
+router.post("/:id/cancel", async (req, res) => {
+  try {
+    const found = await findRequestForGuest(req, req.body?.token);
+
+    if (!found) {
+      res.status(404).json({ error: "Booking request not found" });
+      return;
+    }
+
+    const request = await cancelBookingRequest(found);
+
+    res.json({ bookingRequest: toBookingRequestResponse(request) });
+  } catch (err) {
+    handleBookingError(res, err, "POST /booking-requests/:id/cancel");
+  }
+});
+
+export default router;
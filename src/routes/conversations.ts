@@ -0,0 +1,167 @@
+import { Router, Request, Response } from "express";
+import {
+  AuthContext,
+  requireGuestAuth,
+  requireHostAuth,
+  requireUserAuth,
+} from "../lib/auth";
+import {
+  ConversationError,
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  MAX_MESSAGE_PAGE_SIZE,
+  countUnreadMessages,
+  listConversations,
+  listMessages,
+  normalizeMessageBody,
+  sendMessage,
+  startConversation,
+} from "../services/conversations";
+
+const router = Router();
+
+function handleConversationError(
+  res: Response,
+  err: unknown,
+  context: string
+): void {
+  if (err instanceof ConversationError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.error(`Error in ${context}`, err);
+  res.status(500).json({ error: "Internal server error" });
+}
+
+// Set by requireUserAuth: a host or a guest, never both.
+function getParticipant(req: Request): AuthContext {
+  const hostId = (req as any).hostId as string | undefined;
+  return hostId
+    ? { role: "host", id: hostId }
+    : { role: "guest", id: (req as any).guestId as string };
+}
+
+// Guest asks a host about a listing; reuses the thread if one exists
+router.post("/", requireGuestAuth, async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const { listingId, bookingRequestId } = req.body ?? {};
+
+    if (typeof listingId !== "string" || !listingId) {
+      res.status(400).json({ error: "listingId is required" });
+      return;
+    }
+
+    if (bookingRequestId != null && typeof bookingRequestId !== "string") {
+      res.status(400).json({ error: "bookingRequestId must be a string" });
+      return;
+    }
+
+    const result = await startConversation(guestId, {
+      listingId,
+      ...(bookingRequestId ? { bookingRequestId } : {}),
+      body: normalizeMessageBody(req.body?.body),
+    });
+
+    res.status(201).json(result);
+  } catch (err) {
+    handleConversationError(res, err, "POST /conversations");
+  }
+});
+
+// The guest's threads (protected)
+router.get("/mine", requireGuestAuth, async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const conversations = await listConversations(
+      { role: "guest", id: guestId },
+      { unreadOnly: req.query.unread === "true" }
+    );
+    res.json({ conversations });
+  } catch (err) {
+    handleConversationError(res, err, "GET /conversations/mine");
+  }
+});
+
+// Host inbox across all listings; `?listingId=` and `?unread=true` narrow it
+router.get("/host", requireHostAuth, async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+    const listingId =
+      typeof req.query.listingId === "string" ? req.query.listingId : undefined;
+
+    const conversations = await listConversations(
+      { role: "host", id: hostId },
+      {
+        unreadOnly: req.query.unread === "true",
+        ...(listingId ? { listingId } : {}),
+      }
+    );
+    res.json({ conversations });
+  } catch (err) {
+    handleConversationError(res, err, "GET /conversations/host");
+  }
+});
+
+// Unread totals for a badge, for whichever side is signed in
+router.get("/unread-count", requireUserAuth, async (req, res) => {
+  try {
+    res.json(await countUnreadMessages(getParticipant(req)));
+  } catch (err) {
+    handleConversationError(res, err, "GET /conversations/unread-count");
+  }
+});
+
+// Newest first; `?before=<createdAt>` pages back, the latest page marks read
+router.get("/:id/messages", requireUserAuth, async (req, res) => {
+  try {
+    const beforeParam =
+      typeof req.query.before === "string" ? req.query.before : undefined;
+    const before = beforeParam ? new Date(beforeParam) : undefined;
+
+    if (before && Number.isNaN(before.getTime())) {
+      res.status(400).json({ error: "before must be an ISO timestamp" });
+      return;
+    }
+
+    const limitParam =
+      typeof req.query.limit === "string" ? req.query.limit : undefined;
+    const limit = limitParam
+      ? Number.parseInt(limitParam, 10)
+      : DEFAULT_MESSAGE_PAGE_SIZE;
+
+    if (!Number.isFinite(limit) || limit < 1) {
+      res.status(400).json({ error: "limit must be a positive integer" });
+      return;
+    }
+
+    const messages = await listMessages(
+      getParticipant(req),
+      req.params.id as string,
+      {
+        limit: Math.min(limit, MAX_MESSAGE_PAGE_SIZE),
+        ...(before ? { before } : {}),
+      }
+    );
+
+    res.json({ messages });
+  } catch (err) {
+    handleConversationError(res, err, "GET /conversations/:id/messages");
+  }
+});
+
+router.post("/:id/messages", requireUserAuth, async (req, res) => {
+  try {
+    const message = await sendMessage(
+      getParticipant(req),
+      req.params.id as string,
+      normalizeMessageBody(req.body?.body)
+    );
+    res.status(201).json({ message });
+  } catch (err) {
+    handleConversationError(res, err, "POST /conversations/:id/messages");
+  }
+});
+
+export default router;
@@ -0,0 +1,121 @@
+import { Router, Request } from "express";
+import { requeueDeadLetterJob } from "../jobs/syncQueue";
+import {
+  DEAD_LETTER_JOB_STATUSES,
+  DeadLetterJobStatus,
+  findDeadLetterJob,
+  listDeadLetterJobs,
+  resolveDeadLetterJob,
+} from "../services/deadLetterJobs";
+
+export type FailedJobsRouterOptions = {
+  // Mount path, used in error logs (e.g. "/jobs/failed")
+  basePath: string;
+  // Host whose jobs the request may see; undefined means every host
+  hostScope: (req: Request) => string | undefined;
+};
+
+function parseLimit(req: Request): number {
+  const limitParam =
+    typeof req.query.limit === "string" ? req.query.limit : undefined;
+  const limit = limitParam ? Number.parseInt(limitParam, 10) : 100;
+  return Math.min(200, Math.max(1, Number.isFinite(limit) ? limit : 100));
+}
+
+/**
+ * List / retry / discard for dead-lettered jobs, shared by the host-facing
+ * `/jobs/failed` and the operator-facing `/admin/failed-jobs` routes. Auth is
+ * left to the parent router.
+ */
+export function createFailedJobsRouter({
+  basePath,
+  hostScope,
+}: FailedJobsRouterOptions): Router {
+  const router = Router();
+
+  router.get("/", async (req, res) => {
+    try {
+      const status =
+        typeof req.query.status === "string" ? req.query.status : undefined;
+      if (
+        status &&
+        !DEAD_LETTER_JOB_STATUSES.includes(status as DeadLetterJobStatus)
+      ) {
+        res.status(400).json({
+          error: `status must be one of ${DEAD_LETTER_JOB_STATUSES.join(", ")}`,
+        });
+        return;
+      }
+
+      const hostId = hostScope(req);
+      const jobName =
+        typeof req.query.jobName === "string" ? req.query.jobName : undefined;
+
+      const jobs = await listDeadLetterJobs(
+        {
+          ...(hostId ? { hostId } : {}),
+          ...(status ? { status: status as DeadLetterJobStatus } : {}),
+          ...(jobName ? { jobName } : {}),
+        },
+        parseLimit(req)
+      );
+
+      res.json({ jobs });
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(`Error in GET ${basePath}`, err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Re-enqueue a failed job with its original payload
+  router.post("/:id/retry", async (req, res) => {
+    try {
+      const deadJob = await findDeadLetterJob(req.params.id, hostScope(req));
+
+      if (!deadJob) {
+        res.status(404).json({ error: "Failed job not found" });
+        return;
+      }
+
+      const job = await requeueDeadLetterJob(deadJob);
+      if (!job) {
+        res.status(409).json({
+          error: "Job has already been resolved or can't be retried",
+        });
+        return;
+      }
+
+      res.json({ ok: true, jobId: job.id });
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(`Error in POST ${basePath}/:id/retry`, err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Acknowledge a failed job without running it again
+  router.post("/:id/discard", async (req, res) => {
+    try {
+      const deadJob = await findDeadLetterJob(req.params.id, hostScope(req));
+
+      if (!deadJob) {
+        res.status(404).json({ error: "Failed job not found" });
+        return;
+      }
+
+      if (!(await resolveDeadLetterJob(deadJob.id, "discarded"))) {
+        res.status(409).json({ error: "Job has already been resolved" });
+        return;
+      }
+
+      res.json({ ok: true });
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(`Error in POST ${basePath}/:id/discard`, err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,96 @@
+import { Router, Response } from "express";
+import { requireGuestAuth } from "../lib/auth";
+import {
+  FavoriteError,
+  acknowledgeFavorite,
+  addFavorite,
+  listFavorites,
+  normalizeFavoriteNote,
+  removeFavorite,
+} from "../services/favorites";
+
+const router = Router();
+
+router.use(requireGuestAuth);
+
+function handleFavoriteError(
+  res: Response,
+  err: unknown,
+  context: string
+): void {
+  if (err instanceof FavoriteError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.error(`Error in ${context}`, err);
+  res.status(500).json({ error: "Internal server error" });
+}
+
+// Favorites with priceChanged / availabilityChanged flags raised by syncs
+router.get("/", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    res.json({ favorites: await listFavorites(guestId) });
+  } catch (err) {
+    handleFavoriteError(res, err, "GET /favorites");
+  }
+});
+
+// Favorite a listing; repeating the call only updates the note
+router.put("/:listingId", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const note =
+      req.body?.note !== undefined
+        ? normalizeFavoriteNote(req.body.note)
+        : undefined;
+
+    const favorite = await addFavorite(
+      guestId,
+      req.params.listingId as string,
+      note
+    );
+
+    res.json({ favorite });
+  } catch (err) {
+    handleFavoriteError(res, err, "PUT /favorites/:listingId");
+  }
+});
+
+// Unfavoriting also drops the listing from every shortlist
+router.delete("/:listingId", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const removed = await removeFavorite(
+      guestId,
+      req.params.listingId as string
+    );
+
+    if (!removed) {
+      res.status(404).json({ error: "Favorite not found" });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (err) {
+    handleFavoriteError(res, err, "DELETE /favorites/:listingId");
+  }
+});
+
+// Clear the change flags once the guest has looked at the listing again
+router.post("/:listingId/seen", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const favorite = await acknowledgeFavorite(
+      guestId,
+      req.params.listingId as string
+    );
+    res.json({ favorite });
+  } catch (err) {
+    handleFavoriteError(res, err, "POST /favorites/:listingId/seen");
+  }
+});
+
+export default router;
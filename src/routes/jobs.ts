@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { requireHostAuth } from "../lib/auth";
+import { createFailedJobsRouter } from "./failedJobs";
+
+const router = Router();
+
+router.use(requireHostAuth);
+
+// Background jobs for the host's account that ran out of retries
+router.use(
+  "/failed",
+  createFailedJobsRouter({
+    basePath: "/jobs/failed",
+    hostScope: (req) => (req as any).hostId as string,
+  })
+);
+
+export default router;
@@ -1,229 +1,41 @@
-import { Router, Request, Response, NextFunction } from "express";
-import jwt, { JwtPayload } from "jsonwebtoken";
+import { Router } from "express";
 import { prisma } from "../lib/prisma";
-import { syncQueue } from "../jobs/syncQueue";
+import { getGuestIdFromRequest, requireHostAuth } from "../lib/auth";
+import { enqueueSyncJob } from "../jobs/syncQueue";
+import {
+  countNights,
+  parseStayDate,
+  quoteStayForListing,
+} from "../services/stayQuote";
+import {
+  MAX_CALENDAR_HORIZON_MONTHS,
+  isCalendarStale,
+} from "../services/calendarSync";
+import {
+  ListingSearchError,
+  PHOTO_SELECT,
+  PhotoResult,
+  parseListingSearch,
+  searchListings,
+} from "../services/listingSearch";
+import { findFavorite } from "../services/favorites";
 
 const router = Router();
 
-type AuthPayload = JwtPayload & {
-  sub?: string | number;
-  hostId?: number;
-};
-
-function getJwtSecret(): string {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error("JWT_SECRET environment variable must be set");
-  }
-  return secret;
-}
-
-function getHostIdFromRequest(req: Request): number | null {
-  const authHeader = req.headers.authorization;
-  if (!authHeader?.startsWith("Bearer ")) {
-    return null;
-  }
-
-  const token = authHeader.slice("Bearer ".length).trim();
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const decoded = jwt.verify(token, getJwtSecret()) as AuthPayload | string;
-    if (typeof decoded === "string") {
-      return null;
-    }
-
-    if (typeof decoded.hostId === "number") {
-      return decoded.hostId;
-    }
-
-    if (decoded.sub != null) {
-      const subNum = Number(decoded.sub);
-      if (Number.isFinite(subNum)) {
-        return subNum;
-      }
-    }
-
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-function requireHostAuth(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  const hostId = getHostIdFromRequest(req);
-  if (!hostId) {
-    res.status(401).json({ error: "Unauthorized" });
-    return;
-  }
-
-  // Attach to request for downstream handlers (using any to avoid extending Express types here)
-  (req as any).hostId = hostId;
-  next();
-}
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CALENDAR_DAYS = 180;
+const MAX_CALENDAR_DAYS = 31 * MAX_CALENDAR_HORIZON_MONTHS;
 
 // Public listing search
 router.get("/", async (req, res) => {
   try {
-    const city =
-      typeof req.query.city === "string" ? req.query.city : undefined;
-    const state =
-      typeof req.query.state === "string" ? req.query.state : undefined;
-
-    const bedroomsParam =
-      typeof req.query.bedrooms === "string"
-        ? req.query.bedrooms
-        : undefined;
-    const bedroomsMinParam =
-      typeof req.query.bedroomsMin === "string"
-        ? req.query.bedroomsMin
-        : undefined;
-    const bedroomsMaxParam =
-      typeof req.query.bedroomsMax === "string"
-        ? req.query.bedroomsMax
-        : undefined;
-
-    const minPriceParam =
-      typeof req.query.minPrice === "string"
-        ? req.query.minPrice
-        : undefined;
-    const maxPriceParam =
-      typeof req.query.maxPrice === "string"
-        ? req.query.maxPrice
-        : undefined;
-
-    const startDateParam =
-      typeof req.query.startDate === "string"
-        ? req.query.startDate
-        : undefined;
-    const endDateParam =
-      typeof req.query.endDate === "string"
-        ? req.query.endDate
-        : undefined;
-
-    const pageParam =
-      typeof req.query.page === "string" ? req.query.page : undefined;
-    const pageSizeParam =
-      typeof req.query.pageSize === "string"
-        ? req.query.pageSize
-        : undefined;
-
-    const page = Math.max(
-      1,
-      pageParam ? Number.parseInt(pageParam, 10) : 1
-    );
-    const pageSize = Math.min(
-      50,
-      Math.max(
-        1,
-        pageSizeParam ? Number.parseInt(pageSizeParam, 10) : 20
-      )
-    );
-
-    const bedrooms =
-      bedroomsParam != null ? Number.parseInt(bedroomsParam, 10) : undefined;
-    const bedroomsMin =
-      bedroomsMinParam != null
-        ? Number.parseInt(bedroomsMinParam, 10)
-        : undefined;
-    const bedroomsMax =
-      bedroomsMaxParam != null
-        ? Number.parseInt(bedroomsMaxParam, 10)
-        : undefined;
-
-    const minPrice =
-      minPriceParam != null ? Number.parseFloat(minPriceParam) : undefined;
-    const maxPrice =
-      maxPriceParam != null ? Number.parseFloat(maxPriceParam) : undefined;
-
-    const startDate =
-      startDateParam != null ? new Date(startDateParam) : undefined;
-    const endDate =
-      endDateParam != null ? new Date(endDateParam) : undefined;
-
-    const where: any = {};
-
-    if (city) {
-      where.city = { equals: city, mode: "insensitive" };
-    }
-
-    if (state) {
-      where.state = { equals: state, mode: "insensitive" };
-    }
-
-    if (Number.isFinite(bedrooms as number)) {
-      where.bedrooms = bedrooms;
-    } else {
-      if (Number.isFinite(bedroomsMin as number)) {
-        where.bedrooms = where.bedrooms ?? {};
-        where.bedrooms.gte = bedroomsMin;
-      }
-      if (Number.isFinite(bedroomsMax as number)) {
-        where.bedrooms = where.bedrooms ?? {};
-        where.bedrooms.lte = bedroomsMax;
-      }
-    }
-
-    if (startDate || endDate || Number.isFinite(minPrice as number) || Number.isFinite(maxPrice as number)) {
-      const calendarFilter: any = {};
-
-      if (startDate) {
-        calendarFilter.date = calendarFilter.date ?? {};
-        calendarFilter.date.gte = startDate;
-      }
-      if (endDate) {
-        calendarFilter.date = calendarFilter.date ?? {};
-        calendarFilter.date.lte = endDate;
-      }
-
-      calendarFilter.available = true;
-
-      if (Number.isFinite(minPrice as number)) {
-        calendarFilter.price = calendarFilter.price ?? {};
-        calendarFilter.price.gte = minPrice;
-      }
-      if (Number.isFinite(maxPrice as number)) {
-        calendarFilter.price = calendarFilter.price ?? {};
-        calendarFilter.price.lte = maxPrice;
-      }
-
-      where.calendarDays = { some: calendarFilter };
-    }
-
-    const listings = await prisma.listing.findMany({
-      where,
-      orderBy: {
-        createdAt: "desc",
-      },
-      skip: (page - 1) * pageSize,
-      take: pageSize,
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        city: true,
-        state: true,
-        bedrooms: true,
-        bathrooms: true,
-        maxGuests: true,
-        photos: true,
-        amenities: true,
-        basePrice: true,
-      },
-    });
-
-    res.json({
-      page,
-      pageSize,
-      results: listings,
-    });
+    const params = parseListingSearch(req.query);
+    res.json(await searchListings(params));
   } catch (err) {
+    if (err instanceof ListingSearchError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
     // eslint-disable-next-line no-console
     console.error("Error in GET /listings", err);
     res.status(500).json({ error: "Internal server error" });
@@ -233,14 +45,22 @@ router.get("/", async (req, res) => {
 // Host's own listings (protected)
 router.get("/me", requireHostAuth, async (req, res) => {
   try {
-    const hostId = (req as any).hostId as number;
+    const hostId = (req as any).hostId as string;
 
-    const listings = await prisma.listing.findMany({
-      where: { hostId },
-      orderBy: { createdAt: "desc" },
-    });
+    const listings: { calendarSyncedAt: Date | null }[] =
+      await prisma.listing.findMany({
+        where: { hostId },
+        orderBy: { createdAt: "desc" },
+      });
 
-    res.json({ listings });
+    const now = new Date();
+
+    res.json({
+      listings: listings.map((listing) => ({
+        ...listing,
+        calendarStale: isCalendarStale(listing.calendarSyncedAt, now),
+      })),
+    });
   } catch (err) {
     // eslint-disable-next-line no-console
     console.error("Error in GET /listings/me", err);
@@ -251,11 +71,18 @@ router.get("/me", requireHostAuth, async (req, res) => {
 // Manual sync trigger for a host (protected)
 router.post("/sync", requireHostAuth, async (req, res) => {
   try {
-    const hostId = (req as any).hostId as number;
+    const hostId = (req as any).hostId as string;
 
-    await syncQueue.add("sync-listings", { hostId });
+    // `{ "full": true }` forces a full sweep instead of an incremental one.
+    const mode = req.body?.full === true ? "full" : undefined;
 
-    res.status(202).json({ queued: true });
+    const job = await enqueueSyncJob("sync-listings", {
+      hostId,
+      ...(mode ? { mode } : {}),
+    });
+
+    // Poll GET /sync/status?jobId=... for progress.
+    res.status(202).json({ queued: true, jobId: String(job.id) });
   } catch (err) {
     // eslint-disable-next-line no-console
     console.error("Error in POST /listings/sync", err);
@@ -263,26 +90,55 @@ router.post("/sync", requireHostAuth, async (req, res) => {
   }
 });
 
-// Single listing detail (public)
+// Single listing detail (public; signed-in guests also get their favorite)
 router.get("/:id", async (req, res) => {
   try {
-    const idNum = Number.parseInt(req.params.id, 10);
-    if (!Number.isFinite(idNum)) {
-      res.status(400).json({ error: "Invalid listing id" });
+    // Calendar window: `from` defaults to today, `to` to 180 days after `from`.
+    const from =
+      req.query.from != null
+        ? parseStayDate(req.query.from)
+        : parseStayDate(new Date().toISOString().slice(0, 10));
+    const toParam =
+      req.query.to != null ? parseStayDate(req.query.to) : undefined;
+
+    if (!from || toParam === null) {
+      res.status(400).json({ error: "from and to must be YYYY-MM-DD" });
+      return;
+    }
+
+    const to =
+      toParam ?? new Date(from.getTime() + DEFAULT_CALENDAR_DAYS * DAY_MS);
+
+    if (to.getTime() <= from.getTime()) {
+      res.status(400).json({ error: "to must be after from" });
       return;
     }
 
-    const listing = await prisma.listing.findUnique({
-      where: { id: idNum },
+    if (countNights(from, to) > MAX_CALENDAR_DAYS) {
+      res.status(400).json({
+        error: `from and to can be at most ${MAX_CALENDAR_DAYS} days apart`,
+      });
+      return;
+    }
+
+    const listing = await prisma.listing.findFirst({
+      where: { id: req.params.id, status: "active" },
       include: {
         calendarDays: {
           where: {
-            date: { gte: new Date() },
+            date: { gte: from, lt: to },
           },
           orderBy: {
             date: "asc",
           },
-          take: 180, // up to ~6 months of days
+        },
+        losDiscounts: {
+          select: { minNights: true, priceFactor: true },
+          orderBy: { minNights: "asc" },
+        },
+        photos: {
+          select: PHOTO_SELECT,
+          orderBy: { sortOrder: "asc" },
         },
       },
     });
@@ -292,7 +148,20 @@ router.get("/:id", async (req, res) => {
       return;
     }
 
-    res.json({ listing });
+    const guestId = getGuestIdFromRequest(req);
+    const favorite = guestId ? await findFavorite(guestId, listing.id) : null;
+
+    res.json({
+      listing: {
+        ...listing,
+        coverPhoto:
+          listing.photos.find((photo: PhotoResult) => photo.isCover) ??
+          listing.photos[0] ??
+          null,
+        calendarStale: isCalendarStale(listing.calendarSyncedAt),
+      },
+      ...(guestId ? { favorite } : {}),
+    });
   } catch (err) {
     // eslint-disable-next-line no-console
     console.error("Error in GET /listings/:id", err);
@@ -300,5 +169,52 @@ router.get("/:id", async (req, res) => {
   }
 });
 
+// Stay quote for a date range (public)
+router.get("/:id/quote", async (req, res) => {
+  try {
+    const startDate = parseStayDate(req.query.startDate);
+    const endDate = parseStayDate(req.query.endDate);
+
+    if (!startDate || !endDate) {
+      res
+        .status(400)
+        .json({ error: "startDate and endDate are required (YYYY-MM-DD)" });
+      return;
+    }
+
+    if (endDate.getTime() <= startDate.getTime()) {
+      res.status(400).json({ error: "endDate must be after startDate" });
+      return;
+    }
+
+    const guestsParam =
+      typeof req.query.guests === "string" ? req.query.guests : undefined;
+    const guests =
+      guestsParam != null ? Number.parseInt(guestsParam, 10) : undefined;
+
+    if (guests !== undefined && (!Number.isFinite(guests) || guests < 1)) {
+      res.status(400).json({ error: "guests must be a positive integer" });
+      return;
+    }
+
+    const quote = await quoteStayForListing(req.params.id, {
+      startDate,
+      endDate,
+      ...(guests !== undefined ? { guests } : {}),
+    });
+
+    if (!quote) {
+      res.status(404).json({ error: "Listing not found" });
+      return;
+    }
+
+    res.json({ quote });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /listings/:id/quote", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 export default router;
 
@@ -0,0 +1,62 @@
+import { Router } from "express";
+import { prisma } from "../lib/prisma";
+import { requireHostAuth } from "../lib/auth";
+import { parseStayDate } from "../services/stayQuote";
+
+const router = Router();
+
+// Mirrored Guesty reservations for the host's listings (protected)
+router.get("/me", requireHostAuth, async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+
+    const status =
+      typeof req.query.status === "string" ? req.query.status : undefined;
+    const listingId =
+      typeof req.query.listingId === "string"
+        ? req.query.listingId
+        : undefined;
+    const from =
+      req.query.from != null ? parseStayDate(req.query.from) : undefined;
+    const to = req.query.to != null ? parseStayDate(req.query.to) : undefined;
+
+    if (from === null || to === null) {
+      res.status(400).json({ error: "from and to must be YYYY-MM-DD" });
+      return;
+    }
+
+    const where: any = { hostId };
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (listingId) {
+      where.listingId = listingId;
+    }
+
+    // Reservations overlapping [from, to)
+    if (from) {
+      where.checkOut = { gt: from };
+    }
+    if (to) {
+      where.checkIn = { lt: to };
+    }
+
+    const reservations = await prisma.reservation.findMany({
+      where,
+      orderBy: { checkIn: "asc" },
+      include: {
+        listing: { select: { id: true, title: true } },
+      },
+    });
+
+    res.json({ reservations });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /reservations/me", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+import { Router, Response } from "express";
+import { requireGuestAuth } from "../lib/auth";
+import {
+  SavedSearchError,
+  createSavedSearch,
+  deleteSavedSearch,
+  listSavedSearchAlerts,
+  listSavedSearches,
+  updateSavedSearch,
+} from "../services/savedSearches";
+
+const router = Router();
+
+router.use(requireGuestAuth);
+
+function handleSavedSearchError(
+  res: Response,
+  err: unknown,
+  context: string
+): void {
+  if (err instanceof SavedSearchError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.error(`Error in ${context}`, err);
+  res.status(500).json({ error: "Internal server error" });
+}
+
+// `query` takes the same parameters as GET /listings, as an object or string.
+router.post("/", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const { name, query, alertsEnabled } = req.body ?? {};
+
+    if (query == null) {
+      res.status(400).json({ error: "query is required" });
+      return;
+    }
+
+    if (name != null && typeof name !== "string") {
+      res.status(400).json({ error: "name must be a string" });
+      return;
+    }
+
+    if (alertsEnabled != null && typeof alertsEnabled !== "boolean") {
+      res.status(400).json({ error: "alertsEnabled must be a boolean" });
+      return;
+    }
+
+    const savedSearch = await createSavedSearch(guestId, {
+      name: name ?? null,
+      query,
+      ...(alertsEnabled != null ? { alertsEnabled } : {}),
+    });
+
+    res.status(201).json({ savedSearch });
+  } catch (err) {
+    handleSavedSearchError(res, err, "POST /saved-searches");
+  }
+});
+
+router.get("/", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    res.json({ savedSearches: await listSavedSearches(guestId) });
+  } catch (err) {
+    handleSavedSearchError(res, err, "GET /saved-searches");
+  }
+});
+
+// Rename a saved search or switch its alerts on or off
+router.patch("/:id", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const { name, alertsEnabled } = req.body ?? {};
+
+    if (name !== undefined && name !== null && typeof name !== "string") {
+      res.status(400).json({ error: "name must be a string or null" });
+      return;
+    }
+
+    if (alertsEnabled !== undefined && typeof alertsEnabled !== "boolean") {
+      res.status(400).json({ error: "alertsEnabled must be a boolean" });
+      return;
+    }
+
+    const savedSearch = await updateSavedSearch(
+      guestId,
+      req.params.id as string,
+      {
+        ...(name !== undefined ? { name } : {}),
+        ...(alertsEnabled !== undefined ? { alertsEnabled } : {}),
+      }
+    );
+
+    res.json({ savedSearch });
+  } catch (err) {
+    handleSavedSearchError(res, err, "PATCH /saved-searches/:id");
+  }
+});
+
+router.delete("/:id", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    await deleteSavedSearch(guestId, req.params.id as string);
+    res.status(204).end();
+  } catch (err) {
+    handleSavedSearchError(res, err, "DELETE /saved-searches/:id");
+  }
+});
+
+// Alerts raised for listings that started matching after the search was saved
+router.get("/:id/alerts", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const alerts = await listSavedSearchAlerts(
+      guestId,
+      req.params.id as string
+    );
+    res.json({ alerts });
+  } catch (err) {
+    handleSavedSearchError(res, err, "GET /saved-searches/:id/alerts");
+  }
+});
+
+export default router;
@@ -0,0 +1,166 @@
+import { Router, Response } from "express";
+import { requireGuestAuth } from "../lib/auth";
+import {
+  ShortlistError,
+  addListingToShortlist,
+  createShortlist,
+  deleteShortlist,
+  getSharedShortlist,
+  getShortlist,
+  listShortlists,
+  removeListingFromShortlist,
+  renameShortlist,
+  setShortlistSharing,
+} from "../services/shortlists";
+import { FavoriteError } from "../services/favorites";
+
+const router = Router();
+
+function handleShortlistError(
+  res: Response,
+  err: unknown,
+  context: string
+): void {
+  if (err instanceof ShortlistError || err instanceof FavoriteError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.error(`Error in ${context}`, err);
+  res.status(500).json({ error: "Internal server error" });
+}
+
+// Read-only view behind a share link (public)
+router.get("/shared/:token", async (req, res) => {
+  try {
+    const shortlist = await getSharedShortlist(req.params.token);
+    res.json({ shortlist });
+  } catch (err) {
+    handleShortlistError(res, err, "GET /shortlists/shared/:token");
+  }
+});
+
+// Everything below belongs to the authenticated guest
+router.use(requireGuestAuth);
+
+router.post("/", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const shortlist = await createShortlist(guestId, req.body?.name);
+    res.status(201).json({ shortlist });
+  } catch (err) {
+    handleShortlistError(res, err, "POST /shortlists");
+  }
+});
+
+router.get("/", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    res.json({ shortlists: await listShortlists(guestId) });
+  } catch (err) {
+    handleShortlistError(res, err, "GET /shortlists");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const shortlist = await getShortlist(guestId, req.params.id as string);
+    res.json({ shortlist });
+  } catch (err) {
+    handleShortlistError(res, err, "GET /shortlists/:id");
+  }
+});
+
+router.patch("/:id", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const shortlist = await renameShortlist(
+      guestId,
+      req.params.id as string,
+      req.body?.name
+    );
+    res.json({ shortlist });
+  } catch (err) {
+    handleShortlistError(res, err, "PATCH /shortlists/:id");
+  }
+});
+
+router.delete("/:id", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    await deleteShortlist(guestId, req.params.id as string);
+    res.status(204).end();
+  } catch (err) {
+    handleShortlistError(res, err, "DELETE /shortlists/:id");
+  }
+});
+
+// Add a listing (favoriting it if it isn't yet)
+router.post("/:id/listings", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const listingId = req.body?.listingId;
+
+    if (typeof listingId !== "string" || !listingId) {
+      res.status(400).json({ error: "listingId is required" });
+      return;
+    }
+
+    const shortlist = await addListingToShortlist(
+      guestId,
+      req.params.id as string,
+      listingId
+    );
+    res.json({ shortlist });
+  } catch (err) {
+    handleShortlistError(res, err, "POST /shortlists/:id/listings");
+  }
+});
+
+router.delete("/:id/listings/:listingId", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const shortlist = await removeListingFromShortlist(
+      guestId,
+      req.params.id as string,
+      req.params.listingId as string
+    );
+    res.json({ shortlist });
+  } catch (err) {
+    handleShortlistError(
+      res,
+      err,
+      "DELETE /shortlists/:id/listings/:listingId"
+    );
+  }
+});
+
+// Create (or rotate) the read-only share link
+router.post("/:id/share", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    const { shareToken } = await setShortlistSharing(
+      guestId,
+      req.params.id as string,
+      true
+    );
+    res.json({ shareToken, sharePath: `/shortlists/shared/${shareToken}` });
+  } catch (err) {
+    handleShortlistError(res, err, "POST /shortlists/:id/share");
+  }
+});
+
+// Revoke the share link
+router.delete("/:id/share", async (req, res) => {
+  try {
+    const guestId = (req as any).guestId as string;
+    await setShortlistSharing(guestId, req.params.id as string, false);
+    res.status(204).end();
+  } catch (err) {
+    handleShortlistError(res, err, "DELETE /shortlists/:id/share");
+  }
+});
+
+export default router;
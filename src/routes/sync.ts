@@ -0,0 +1,180 @@
+import { Router, Request } from "express";
+import { prisma } from "../lib/prisma";
+import { requireHostAuth } from "../lib/auth";
+import { enqueueCalendarSync, syncQueue } from "../jobs/syncQueue";
+import {
+  MAX_CALENDAR_HORIZON_MONTHS,
+  MIN_CALENDAR_HORIZON_MONTHS,
+} from "../services/calendarSync";
+import {
+  SYNC_RUN_STATUSES,
+  SYNC_RUN_TYPES,
+  SyncRunStatus,
+  SyncRunType,
+  getSyncStatus,
+  listSyncRuns,
+  listSyncRunsForJob,
+} from "../services/syncRuns";
+
+const router = Router();
+
+router.use(requireHostAuth);
+
+function parseLimit(req: Request): number {
+  const limitParam =
+    typeof req.query.limit === "string" ? req.query.limit : undefined;
+  const limit = limitParam ? Number.parseInt(limitParam, 10) : 50;
+  return Math.min(200, Math.max(1, Number.isFinite(limit) ? limit : 50));
+}
+
+// Current sync state for the host; `?jobId=` adds the queue state of one job
+router.get("/status", async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+    const jobId =
+      typeof req.query.jobId === "string" ? req.query.jobId : undefined;
+
+    const status = await getSyncStatus(hostId);
+
+    if (!jobId) {
+      res.json(status);
+      return;
+    }
+
+    const job = await syncQueue.getJob(jobId);
+
+    // Jobs for other hosts look the same as missing ones.
+    if (!job || job.data?.hostId !== hostId) {
+      res.status(404).json({ error: "Sync job not found" });
+      return;
+    }
+
+    const [state, runs] = await Promise.all([
+      job.getState(),
+      listSyncRunsForJob(hostId, jobId),
+    ]);
+
+    res.json({
+      ...status,
+      job: {
+        id: String(job.id),
+        name: job.name,
+        state,
+        attemptsMade: job.attemptsMade,
+        failedReason: job.failedReason ?? null,
+        runs,
+      },
+    });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /sync/status", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Past sync runs for the host, newest first
+router.get("/history", async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+
+    const type =
+      typeof req.query.type === "string" ? req.query.type : undefined;
+    const status =
+      typeof req.query.status === "string" ? req.query.status : undefined;
+
+    if (type && !SYNC_RUN_TYPES.includes(type as SyncRunType)) {
+      res
+        .status(400)
+        .json({ error: `type must be one of ${SYNC_RUN_TYPES.join(", ")}` });
+      return;
+    }
+
+    if (status && !SYNC_RUN_STATUSES.includes(status as SyncRunStatus)) {
+      res.status(400).json({
+        error: `status must be one of ${SYNC_RUN_STATUSES.join(", ")}`,
+      });
+      return;
+    }
+
+    const runs = await listSyncRuns(
+      hostId,
+      {
+        ...(type ? { type: type as SyncRunType } : {}),
+        ...(status ? { status: status as SyncRunStatus } : {}),
+      },
+      parseLimit(req)
+    );
+
+    res.json({ runs });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /sync/history", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Set how many months of availability to mirror, for the host or one listing.
+// `months: null` falls back to the host setting (or the server default).
+router.put("/calendar-horizon", async (req, res) => {
+  try {
+    const hostId = (req as any).hostId as string;
+    const { months, listingId } = req.body ?? {};
+
+    if (
+      months !== null &&
+      (!Number.isInteger(months) ||
+        months < MIN_CALENDAR_HORIZON_MONTHS ||
+        months > MAX_CALENDAR_HORIZON_MONTHS)
+    ) {
+      res.status(400).json({
+        error: `months must be null or an integer from ${MIN_CALENDAR_HORIZON_MONTHS} to ${MAX_CALENDAR_HORIZON_MONTHS}`,
+      });
+      return;
+    }
+
+    if (listingId != null && typeof listingId !== "string") {
+      res.status(400).json({ error: "listingId must be a string" });
+      return;
+    }
+
+    let listingIds: string[];
+
+    if (listingId) {
+      const result = await prisma.listing.updateMany({
+        where: { id: listingId, hostId },
+        data: { calendarHorizonMonths: months },
+      });
+
+      if (result.count === 0) {
+        res.status(404).json({ error: "Listing not found" });
+        return;
+      }
+
+      listingIds = [listingId];
+    } else {
+      await prisma.host.update({
+        where: { id: hostId },
+        data: { calendarHorizonMonths: months },
+      });
+
+      const listings: { id: string }[] = await prisma.listing.findMany({
+        where: { hostId, status: "active", calendarHorizonMonths: null },
+        select: { id: true },
+      });
+      listingIds = listings.map((listing) => listing.id);
+    }
+
+    // Re-sync now so a longer horizon is visible without waiting for a sweep.
+    for (const id of listingIds) {
+      await enqueueCalendarSync(id);
+    }
+
+    res.json({ ok: true, months, listingsQueued: listingIds.length });
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PUT /sync/calendar-horizon", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
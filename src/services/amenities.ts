@@ -0,0 +1,206 @@
+export type AmenityKey =
+  | "wifi"
+  | "workspace"
+  | "washer"
+  | "dryer"
+  | "parking"
+  | "pets_allowed"
+  | "kitchen"
+  | "air_conditioning"
+  | "heating"
+  | "dishwasher"
+  | "tv"
+  | "gym"
+  | "pool"
+  | "elevator"
+  | "wheelchair_accessible"
+  | "self_check_in";
+
+type AmenityDefinition = {
+  label: string;
+  // Guesty strings that mean this amenity, compared after normalizeAmenityName
+  aliases: string[];
+  // Substrings that are specific enough to match on their own
+  keywords?: string[];
+};
+
+export type AmenityFacet = {
+  key: AmenityKey;
+  label: string;
+  count: number;
+};
+
+export const AMENITY_TAXONOMY: Record<AmenityKey, AmenityDefinition> = {
+  wifi: {
+    label: "Wi-Fi",
+    aliases: ["wifi", "internet", "wirelessinternet", "pocketwifi"],
+    keywords: ["wifi", "internet"],
+  },
+  workspace: {
+    label: "Dedicated workspace",
+    aliases: ["laptopfriendlyworkspace", "dedicatedworkspace", "desk"],
+    keywords: ["workspace"],
+  },
+  washer: {
+    label: "In-unit laundry",
+    // Not plain "laundry", which is often a shared room in the building
+    aliases: ["washer", "washingmachine", "washerindryer"],
+    keywords: ["washingmachine", "inunitlaundry"],
+  },
+  dryer: {
+    label: "Dryer",
+    aliases: ["dryer", "clothesdryer", "tumbledryer"],
+  },
+  parking: {
+    label: "Parking",
+    aliases: ["parking", "garage"],
+    keywords: ["parking"],
+  },
+  pets_allowed: {
+    label: "Pets allowed",
+    aliases: ["petsallowed", "petfriendly", "dogsallowed", "catsallowed"],
+  },
+  kitchen: {
+    label: "Kitchen",
+    aliases: ["kitchen", "fullkitchen", "kitchenette"],
+  },
+  air_conditioning: {
+    label: "Air conditioning",
+    aliases: ["airconditioning", "ac", "centralairconditioning"],
+  },
+  heating: {
+    label: "Heating",
+    aliases: ["heating", "centralheating"],
+  },
+  dishwasher: {
+    label: "Dishwasher",
+    aliases: ["dishwasher"],
+  },
+  tv: {
+    label: "TV",
+    aliases: ["tv", "cabletv", "smarttv", "television"],
+  },
+  gym: {
+    label: "Gym",
+    aliases: ["gym", "fitnesscenter", "fitnesscentre"],
+  },
+  pool: {
+    label: "Pool",
+    aliases: ["pool", "swimmingpool", "privatepool", "sharedpool"],
+  },
+  elevator: {
+    label: "Elevator",
+    aliases: ["elevator", "elevatorinbuilding", "lift"],
+  },
+  wheelchair_accessible: {
+    label: "Wheelchair accessible",
+    aliases: ["wheelchairaccessible", "stepfreeaccess"],
+  },
+  self_check_in: {
+    label: "Self check-in",
+    aliases: ["selfcheckin", "keypad", "smartlock", "lockbox"],
+  },
+};
+
+export const AMENITY_KEYS = Object.keys(AMENITY_TAXONOMY) as AmenityKey[];
+
+// "Laptop-friendly workspace" -> "laptopfriendlyworkspace"
+function normalizeAmenityName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function matchAmenity(name: string): AmenityKey | null {
+  const normalized = normalizeAmenityName(name);
+  if (!normalized) {
+    return null;
+  }
+
+  for (const key of AMENITY_KEYS) {
+    if (AMENITY_TAXONOMY[key].aliases.includes(normalized)) {
+      return key;
+    }
+  }
+
+  for (const key of AMENITY_KEYS) {
+    const keywords = AMENITY_TAXONOMY[key].keywords ?? [];
+    if (keywords.some((keyword) => normalized.includes(keyword))) {
+      return key;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Maps raw Guesty amenity strings to canonical keys, in taxonomy order.
+ * Strings that don't match anything are dropped (the raw list is kept too).
+ */
+export function normalizeAmenities(raw: string[]): AmenityKey[] {
+  const keys = new Set<AmenityKey>();
+
+  for (const name of raw) {
+    if (typeof name !== "string") {
+      continue;
+    }
+    const key = matchAmenity(name);
+    if (key) {
+      keys.add(key);
+    }
+  }
+
+  return AMENITY_KEYS.filter((key) => keys.has(key));
+}
+
+/**
+ * Parses `amenities=washer,parking` (or repeated params). Returns null if any
+ * value is not a taxonomy key.
+ */
+export function parseAmenityFilter(value: unknown): AmenityKey[] | null {
+  const values = (Array.isArray(value) ? value : [value])
+    .filter((entry): entry is string => typeof entry === "string")
+    .flatMap((entry) => entry.split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  const keys: AmenityKey[] = [];
+  for (const entry of values) {
+    if (!AMENITY_KEYS.includes(entry as AmenityKey)) {
+      return null;
+    }
+    keys.push(entry as AmenityKey);
+  }
+
+  return keys;
+}
+
+function toFacets(counts: Map<AmenityKey, number>): AmenityFacet[] {
+  return AMENITY_KEYS.map((key) => ({
+    key,
+    label: AMENITY_TAXONOMY[key].label,
+    count: counts.get(key) ?? 0,
+  }));
+}
+
+// Facet counts for listings already loaded in memory.
+export function tallyAmenityFacets(
+  amenityKeyLists: string[][]
+): AmenityFacet[] {
+  const counts = new Map<AmenityKey, number>();
+
+  for (const keys of amenityKeyLists) {
+    for (const key of keys) {
+      counts.set(key as AmenityKey, (counts.get(key as AmenityKey) ?? 0) + 1);
+    }
+  }
+
+  return toFacets(counts);
+}
+
+// Facet counts the database grouped by key; unknown keys are ignored.
+export function amenityFacetsFromCounts(
+  rows: { key: string; count: number }[]
+): AmenityFacet[] {
+  return toFacets(
+    new Map(rows.map((row) => [row.key as AmenityKey, Number(row.count)]))
+  );
+}
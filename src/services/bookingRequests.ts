@@ -0,0 +1,404 @@
+import crypto from "crypto";
+import { BookingRequest } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { StayQuote, countNights, quoteStayForListing } from "./stayQuote";
+
+// How long a host (or, after a counter, the guest) has to respond.
+export const BOOKING_REQUEST_TTL_MS = 48 * 60 * 60 * 1000;
+
+// How long an approval holds the nights for the guest to complete the
+// reservation in Guesty.
+export const APPROVED_HOLD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const OPEN_STATUSES = ["pending", "countered"];
+
+export class BookingRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "BookingRequestError";
+  }
+}
+
+export type CreateBookingRequestInput = {
+  listingId: string;
+  guestId?: string;
+  guestName: string;
+  guestEmail: string;
+  startDate: Date;
+  endDate: Date;
+  guests?: number;
+  message?: string;
+};
+
+export type CounterOfferInput = {
+  startDate: Date;
+  endDate: Date;
+  total?: number;
+  note?: string;
+};
+
+function newExpiry(ttlMs = BOOKING_REQUEST_TTL_MS): Date {
+  return new Date(Date.now() + ttlMs);
+}
+
+function assertBookable(quote: StayQuote | null): StayQuote {
+  if (!quote) {
+    throw new BookingRequestError("Listing not found", 404);
+  }
+
+  if (!quote.bookable) {
+    throw new BookingRequestError(
+      "Requested dates cannot be booked",
+      422,
+      quote.reasons
+    );
+  }
+
+  return quote;
+}
+
+async function getRequestForHost(
+  bookingRequestId: string,
+  hostId: string
+): Promise<BookingRequest> {
+  const request = await prisma.bookingRequest.findUnique({
+    where: { id: bookingRequestId },
+    include: { listing: { select: { hostId: true } } },
+  });
+
+  if (!request || request.listing.hostId !== hostId) {
+    throw new BookingRequestError("Booking request not found", 404);
+  }
+
+  return request;
+}
+
+function assertStatus(request: BookingRequest, allowed: string[]): void {
+  if (!allowed.includes(request.status)) {
+    throw new BookingRequestError(
+      `Booking request is ${request.status}`,
+      409
+    );
+  }
+
+  // The expiry job may not have run yet.
+  if (
+    OPEN_STATUSES.includes(request.status) &&
+    request.expiresAt.getTime() <= Date.now()
+  ) {
+    throw new BookingRequestError("Booking request has expired", 409);
+  }
+}
+
+/**
+ * Applies `data` only while the request is still in one of `allowed` (and,
+ * if open, not past its deadline). The status read by the caller may be
+ * stale, so a request someone else answered meanwhile (the guest cancelling
+ * while the host approves, say) gets a 409 instead of being overwritten.
+ */
+async function updateIfStatus(
+  tx: typeof prisma,
+  request: BookingRequest,
+  allowed: string[],
+  data: Record<string, unknown>
+): Promise<BookingRequest> {
+  const result = await tx.bookingRequest.updateMany({
+    where: {
+      id: request.id,
+      status: { in: allowed },
+      OR: [
+        { status: { notIn: OPEN_STATUSES } },
+        { expiresAt: { gt: new Date() } },
+      ],
+    },
+    data,
+  });
+
+  if (result.count === 0) {
+    throw new BookingRequestError(
+      "Booking request was changed by someone else",
+      409
+    );
+  }
+
+  return tx.bookingRequest.findUniqueOrThrow({ where: { id: request.id } });
+}
+
+/**
+ * Marks every night of the stay as held by this request and flips it to
+ * `approved` until APPROVED_HOLD_TTL_MS from now. Fails with 409 if any
+ * night is missing, unavailable or already held, so two approvals can never
+ * overlap.
+ */
+async function placeHoldAndApprove(
+  request: BookingRequest,
+  allowed: string[],
+  startDate: Date,
+  endDate: Date,
+  data: Record<string, unknown>
+): Promise<BookingRequest> {
+  const nights = countNights(startDate, endDate);
+
+  return prisma.$transaction(async (tx: typeof prisma) => {
+    const approved = await updateIfStatus(tx, request, allowed, {
+      ...data,
+      status: "approved",
+      startDate,
+      endDate,
+      respondedAt: new Date(),
+      expiresAt: newExpiry(APPROVED_HOLD_TTL_MS),
+    });
+
+    const held = await tx.calendarDay.updateMany({
+      where: {
+        listingId: request.listingId,
+        date: { gte: startDate, lt: endDate },
+        available: true,
+        holdBookingRequestId: null,
+      },
+      data: { holdBookingRequestId: request.id },
+    });
+
+    if (held.count !== nights) {
+      throw new BookingRequestError(
+        "Some of the requested nights are no longer available",
+        409
+      );
+    }
+
+    return approved;
+  });
+}
+
+/**
+ * Frees any nights held by the request and moves it to its closing status in
+ * one transaction, so a request never ends up approved without its hold.
+ */
+async function releaseHoldAndUpdate(
+  request: BookingRequest,
+  allowed: string[],
+  data: Record<string, unknown>
+): Promise<BookingRequest> {
+  return prisma.$transaction(async (tx: typeof prisma) => {
+    const updated = await updateIfStatus(tx, request, allowed, data);
+
+    await tx.calendarDay.updateMany({
+      where: { holdBookingRequestId: request.id },
+      data: { holdBookingRequestId: null },
+    });
+
+    return updated;
+  });
+}
+
+// Everything except the guest's access token, for API responses.
+export function toBookingRequestResponse(
+  request: BookingRequest
+): Omit<BookingRequest, "accessToken"> {
+  const { accessToken: _accessToken, ...rest } = request;
+  return rest;
+}
+
+export function isValidAccessToken(
+  request: BookingRequest,
+  token: unknown
+): boolean {
+  if (typeof token !== "string" || !token) {
+    return false;
+  }
+
+  const expected = Buffer.from(request.accessToken);
+  const actual = Buffer.from(token);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
+
+export async function createBookingRequest(
+  input: CreateBookingRequestInput
+): Promise<BookingRequest> {
+  const quote = assertBookable(
+    await quoteStayForListing(input.listingId, {
+      startDate: input.startDate,
+      endDate: input.endDate,
+      ...(input.guests !== undefined ? { guests: input.guests } : {}),
+    })
+  );
+
+  return prisma.bookingRequest.create({
+    data: {
+      listingId: input.listingId,
+      guestId: input.guestId ?? null,
+      guestName: input.guestName,
+      guestEmail: input.guestEmail,
+      guests: input.guests ?? null,
+      message: input.message ?? null,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      quotedTotal: quote.total,
+      accessToken: crypto.randomBytes(24).toString("hex"),
+      expiresAt: newExpiry(),
+    },
+  });
+}
+
+export async function approveBookingRequest(
+  bookingRequestId: string,
+  hostId: string,
+  note?: string
+): Promise<BookingRequest> {
+  const request = await getRequestForHost(bookingRequestId, hostId);
+  assertStatus(request, ["pending"]);
+
+  return placeHoldAndApprove(
+    request,
+    ["pending"],
+    request.startDate,
+    request.endDate,
+    { hostNote: note ?? request.hostNote }
+  );
+}
+
+export async function declineBookingRequest(
+  bookingRequestId: string,
+  hostId: string,
+  note?: string
+): Promise<BookingRequest> {
+  const request = await getRequestForHost(bookingRequestId, hostId);
+  assertStatus(request, ["pending", "countered", "approved"]);
+
+  return releaseHoldAndUpdate(request, ["pending", "countered", "approved"], {
+    status: "declined",
+    hostNote: note ?? request.hostNote,
+    respondedAt: new Date(),
+  });
+}
+
+export async function counterBookingRequest(
+  bookingRequestId: string,
+  hostId: string,
+  counter: CounterOfferInput
+): Promise<BookingRequest> {
+  const request = await getRequestForHost(bookingRequestId, hostId);
+  assertStatus(request, ["pending"]);
+
+  const quote = assertBookable(
+    await quoteStayForListing(request.listingId, {
+      startDate: counter.startDate,
+      endDate: counter.endDate,
+      ...(request.guests != null ? { guests: request.guests } : {}),
+    })
+  );
+
+  return updateIfStatus(prisma, request, ["pending"], {
+    status: "countered",
+    counterStartDate: counter.startDate,
+    counterEndDate: counter.endDate,
+    counterTotal: counter.total ?? quote.total,
+    hostNote: counter.note ?? request.hostNote,
+    respondedAt: new Date(),
+    expiresAt: newExpiry(),
+  });
+}
+
+export async function acceptCounterOffer(
+  request: BookingRequest
+): Promise<BookingRequest> {
+  assertStatus(request, ["countered"]);
+
+  if (!request.counterStartDate || !request.counterEndDate) {
+    throw new BookingRequestError("Booking request has no counter offer", 409);
+  }
+
+  return placeHoldAndApprove(
+    request,
+    ["countered"],
+    request.counterStartDate,
+    request.counterEndDate,
+    { quotedTotal: request.counterTotal ?? request.quotedTotal }
+  );
+}
+
+export async function cancelBookingRequest(
+  request: BookingRequest
+): Promise<BookingRequest> {
+  assertStatus(request, ["pending", "countered", "approved"]);
+
+  return releaseHoldAndUpdate(request, ["pending", "countered", "approved"], {
+    status: "cancelled",
+  });
+}
+
+/**
+ * A Guesty reservation confirmed for the request's listing and stay, i.e.
+ * the approved request turned into an actual booking.
+ */
+export async function hasConfirmedReservation(
+  request: Pick<BookingRequest, "listingId" | "startDate" | "endDate">
+): Promise<boolean> {
+  const dayAfter = (date: Date) =>
+    new Date(date.getTime() + 24 * 60 * 60 * 1000);
+
+  // Guesty check-in/out carry a time of day.
+  const count = await prisma.reservation.count({
+    where: {
+      listingId: request.listingId,
+      status: "confirmed",
+      checkIn: { gte: request.startDate, lt: dayAfter(request.startDate) },
+      checkOut: { gte: request.endDate, lt: dayAfter(request.endDate) },
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Called from the queue; a no-op if the request was answered, re-countered or
+ * re-approved since. An approval whose reservation never got confirmed in
+ * Guesty expires too, releasing its hold.
+ */
+export async function expireBookingRequest(
+  bookingRequestId: string
+): Promise<boolean> {
+  const result = await prisma.bookingRequest.updateMany({
+    where: {
+      id: bookingRequestId,
+      status: { in: OPEN_STATUSES },
+      expiresAt: { lte: new Date() },
+    },
+    data: { status: "expired" },
+  });
+
+  if (result.count > 0) {
+    return true;
+  }
+
+  const request: BookingRequest | null =
+    await prisma.bookingRequest.findUnique({
+      where: { id: bookingRequestId },
+    });
+
+  if (
+    !request ||
+    request.status !== "approved" ||
+    request.expiresAt.getTime() > Date.now() ||
+    (await hasConfirmedReservation(request))
+  ) {
+    return false;
+  }
+
+  try {
+    await releaseHoldAndUpdate(request, ["approved"], { status: "expired" });
+    return true;
+  } catch (err) {
+    // Cancelled or declined in the meantime.
+    if (err instanceof BookingRequestError) {
+      return false;
+    }
+    throw err;
+  }
+}
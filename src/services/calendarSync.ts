@@ -1,7 +1,16 @@
-import axios from "axios";
-import { Prisma, CalendarDay, Listing } from "@prisma/client";
+import { Prisma, Listing } from "@prisma/client";
 import { prisma } from "../lib/prisma";
-import { getGuestyAccessToken } from "../lib/guestyToken";
+import { guestyGet } from "../lib/guestyClient";
+
+export const MIN_CALENDAR_HORIZON_MONTHS = 1;
+export const MAX_CALENDAR_HORIZON_MONTHS = 18;
+const DEFAULT_CALENDAR_HORIZON_MONTHS = 12;
+const DEFAULT_AVAILABILITY_CHUNK_DAYS = 90;
+const DEFAULT_CALENDAR_STALE_HOURS = 24;
+const DEFAULT_SWEEP_PER_HOST_CONCURRENCY = 2;
+const WRITE_CHUNK_SIZE = 500;
+// Large calendars can take longer than Prisma's 5s default to write.
+const TRANSACTION_TIMEOUT_MS = 30 * 1000;
 
 type GuestyAvailabilityDay = {
   date?: string;
@@ -21,17 +30,63 @@ type GuestyAvailabilityResponse = {
   data?: GuestyAvailabilityDay[];
 };
 
-function getGuestyBaseUrl(): string {
+function getGuestyAvailabilityPath(): string {
+  // Allow overriding the exact path via env; otherwise default to a common pattern.
+  return process.env.GUESTY_AVAILABILITY_PATH ?? "/availability";
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Longest date range requested per availability call.
+function getAvailabilityChunkDays(): number {
+  return readPositiveIntEnv(
+    "GUESTY_AVAILABILITY_CHUNK_DAYS",
+    DEFAULT_AVAILABILITY_CHUNK_DAYS
+  );
+}
+
+function getCalendarStaleMs(): number {
+  const hours = readPositiveIntEnv(
+    "CALENDAR_STALE_HOURS",
+    DEFAULT_CALENDAR_STALE_HOURS
+  );
+  return hours * 60 * 60 * 1000;
+}
+
+// True when the calendar has never synced or hasn't in CALENDAR_STALE_HOURS.
+export function isCalendarStale(
+  calendarSyncedAt: Date | null,
+  now: Date = new Date()
+): boolean {
   return (
-    process.env.GUESTY_API_BASE_URL ?? "https://api.guesty.com/api/v2"
+    !calendarSyncedAt ||
+    now.getTime() - calendarSyncedAt.getTime() > getCalendarStaleMs()
   );
 }
 
-function getGuestyAvailabilityUrl(): string {
-  // Allow overriding the exact path via env; otherwise default to a common pattern.
-  const baseUrl = getGuestyBaseUrl();
-  const path = process.env.GUESTY_AVAILABILITY_PATH ?? "/availability";
-  return `${baseUrl}${path}`;
+export function clampCalendarHorizonMonths(months: number): number {
+  return Math.min(
+    MAX_CALENDAR_HORIZON_MONTHS,
+    Math.max(MIN_CALENDAR_HORIZON_MONTHS, Math.round(months))
+  );
+}
+
+// Listing override, then the host's setting, then CALENDAR_HORIZON_MONTHS.
+export function resolveCalendarHorizonMonths(
+  listingMonths: number | null,
+  hostMonths: number | null
+): number {
+  return clampCalendarHorizonMonths(
+    listingMonths ??
+      hostMonths ??
+      readPositiveIntEnv(
+        "CALENDAR_HORIZON_MONTHS",
+        DEFAULT_CALENDAR_HORIZON_MONTHS
+      )
+  );
 }
 
 function startOfDayUtc(d: Date): Date {
@@ -44,11 +99,16 @@ function addMonths(d: Date, months: number): Date {
   return copy;
 }
 
+type ListingWithHostSettings = Listing & {
+  host: { calendarHorizonMonths: number | null };
+};
+
 async function getListingWithHost(
-  listingId: number
-): Promise<Listing & { hostId: number }> {
+  listingId: string
+): Promise<ListingWithHostSettings> {
   const listing = await prisma.listing.findUnique({
     where: { id: listingId },
+    include: { host: { select: { calendarHorizonMonths: true } } },
   });
 
   if (!listing) {
@@ -64,89 +124,291 @@ async function getListingWithHost(
   return listing;
 }
 
+type CalendarDayValues = {
+  date: Date;
+  available: boolean;
+  price: number;
+  minStay: number;
+};
+
+type ExistingCalendarDay = {
+  id: string;
+  date: Date;
+  available: boolean;
+  price: number | null;
+  minStay: number | null;
+};
+
+export type CalendarSyncResult = {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  // Stored days that switched between available and unavailable
+  availabilityFlipped: number;
+};
+
+function dateKey(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function addDays(d: Date, days: number): Date {
+  return new Date(d.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Fetches [start, end) in consecutive chunks the availability API will accept.
+async function fetchAvailability(
+  hostId: string,
+  guestyListingId: string,
+  start: Date,
+  end: Date
+): Promise<GuestyAvailabilityDay[]> {
+  const chunkDays = getAvailabilityChunkDays();
+  const days: GuestyAvailabilityDay[] = [];
+
+  for (let chunkStart = start; chunkStart < end; ) {
+    const next = addDays(chunkStart, chunkDays);
+    const chunkEnd = next < end ? next : end;
+
+    const data = await guestyGet<GuestyAvailabilityResponse>(
+      hostId,
+      getGuestyAvailabilityPath(),
+      {
+        listingId: guestyListingId,
+        startDate: dateKey(chunkStart),
+        // Guesty's endDate is inclusive.
+        endDate: dateKey(addDays(chunkEnd, -1)),
+      }
+    );
+
+    days.push(...(data.results ?? data.days ?? data.data ?? []));
+    chunkStart = chunkEnd;
+  }
+
+  return days;
+}
+
+function toCalendarDayValues(
+  raw: GuestyAvailabilityDay,
+  listing: Listing
+): CalendarDayValues | null {
+  if (!raw.date) {
+    return null;
+  }
+
+  const parsed = new Date(raw.date);
+  if (Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+
+  const basePriceNumber =
+    raw.price ??
+    raw.nightlyPrice ??
+    raw.basePrice ??
+    raw.defaultDailyPrice ??
+    Number(listing.basePrice ?? 0);
+
+  return {
+    date: startOfDayUtc(parsed),
+    available: raw.available ?? true,
+    price: Number.isFinite(basePriceNumber) ? basePriceNumber : 0,
+    minStay: raw.minimumStay ?? raw.minNights ?? raw.minStay ?? 1,
+  };
+}
+
+function isUnchanged(
+  existing: ExistingCalendarDay,
+  values: CalendarDayValues
+): boolean {
+  return (
+    existing.available === values.available &&
+    existing.price === values.price &&
+    existing.minStay === values.minStay
+  );
+}
+
+// One UPDATE ... FROM (VALUES ...) per chunk instead of a round trip per day.
+async function updateCalendarDays(
+  tx: typeof prisma,
+  rows: (CalendarDayValues & { id: string })[]
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + WRITE_CHUNK_SIZE);
+    const values = Prisma.join(
+      chunk.map(
+        (row) => Prisma.sql`(
+          ${row.id}::text,
+          ${row.available}::boolean,
+          ${row.price}::float8,
+          ${row.minStay}::int
+        )`
+      )
+    );
+
+    await tx.$executeRaw(Prisma.sql`
+      UPDATE "CalendarDay" AS d
+      SET "available" = v."available",
+          "price" = v."price",
+          "minStay" = v."minStay"
+      FROM (VALUES ${values}) AS v("id", "available", "price", "minStay")
+      WHERE d."id" = v."id"
+    `);
+  }
+}
+
+/**
+ * Mirrors Guesty availability for a listing. Fetched days are diffed against
+ * the stored calendar and written in bulk in one transaction; days Guesty no
+ * longer returns are deleted unless a booking request holds them.
+ */
 export async function syncCalendarForListing(
-  listingId: number
-): Promise<CalendarDay[]> {
+  listingId: string
+): Promise<CalendarSyncResult> {
   const listing = await getListingWithHost(listingId);
 
   const hostId = listing.hostId;
   const guestyListingId = listing.guestyId;
 
-  const accessToken = await getGuestyAccessToken(hostId);
+  const horizonMonths = resolveCalendarHorizonMonths(
+    listing.calendarHorizonMonths,
+    listing.host.calendarHorizonMonths
+  );
 
   const start = startOfDayUtc(new Date());
-  const end = startOfDayUtc(addMonths(start, 6));
+  const end = startOfDayUtc(addMonths(start, horizonMonths));
 
-  const url = getGuestyAvailabilityUrl();
+  const rawDays = await fetchAvailability(hostId, guestyListingId, start, end);
 
-  const { data } = await axios.get<GuestyAvailabilityResponse>(url, {
-    params: {
-      listingId: guestyListingId,
-      startDate: start.toISOString().slice(0, 10),
-      endDate: end.toISOString().slice(0, 10),
-    },
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+  // Later entries win if Guesty repeats a date.
+  const incoming = new Map<string, CalendarDayValues>();
+  for (const raw of rawDays) {
+    const values = toCalendarDayValues(raw, listing);
+    if (values && values.date >= start && values.date < end) {
+      incoming.set(dateKey(values.date), values);
+    }
+  }
 
-  const rawDays =
-    data.results ?? data.days ?? data.data ?? [];
+  return prisma.$transaction(
+    async (tx: typeof prisma) => {
+      const existingDays: ExistingCalendarDay[] =
+        await tx.calendarDay.findMany({
+          where: { listingId: listing.id, date: { gte: start, lt: end } },
+          select: {
+            id: true,
+            date: true,
+            available: true,
+            price: true,
+            minStay: true,
+          },
+        });
 
-  const syncedDays: CalendarDay[] = [];
+      const existingByDate = new Map(
+        existingDays.map((day) => [dateKey(day.date), day])
+      );
 
-  for (const raw of rawDays) {
-    if (!raw.date) {
-      continue;
-    }
+      const toInsert: CalendarDayValues[] = [];
+      const toUpdate: (CalendarDayValues & { id: string })[] = [];
+      let unchanged = 0;
+      let availabilityFlipped = 0;
 
-    const dateOnly = startOfDayUtc(new Date(raw.date));
+      for (const [key, values] of incoming) {
+        const existing = existingByDate.get(key);
+        if (!existing) {
+          toInsert.push(values);
+        } else if (isUnchanged(existing, values)) {
+          unchanged += 1;
+        } else {
+          toUpdate.push({ ...values, id: existing.id });
+          if (existing.available !== values.available) {
+            availabilityFlipped += 1;
+          }
+        }
+      }
 
-    const available = raw.available ?? true;
+      const vanishedIds = existingDays
+        .filter((day) => !incoming.has(dateKey(day.date)))
+        .map((day) => day.id);
 
-    const basePriceNumber =
-      raw.price ??
-      raw.nightlyPrice ??
-      raw.basePrice ??
-      raw.defaultDailyPrice ??
-      Number(listing.basePrice ?? 0);
+      for (let i = 0; i < toInsert.length; i += WRITE_CHUNK_SIZE) {
+        await tx.calendarDay.createMany({
+          data: toInsert
+            .slice(i, i + WRITE_CHUNK_SIZE)
+            .map((values) => ({ ...values, listingId: listing.id })),
+          skipDuplicates: true,
+        });
+      }
 
-    const priceDecimal = new Prisma.Decimal(
-      Number.isFinite(basePriceNumber) ? basePriceNumber : 0
-    );
+      await updateCalendarDays(tx, toUpdate);
+
+      // An empty response is more likely a Guesty hiccup than a wiped
+      // calendar, so nothing is deleted in that case.
+      let deleted = 0;
+      if (incoming.size > 0 && vanishedIds.length > 0) {
+        const result = await tx.calendarDay.deleteMany({
+          where: {
+            id: { in: vanishedIds },
+            holdBookingRequestId: null,
+          },
+        });
+        deleted = result.count;
+      }
+
+      await tx.listing.update({
+        where: { id: listing.id },
+        data: { calendarSyncedAt: new Date() },
+      });
+
+      return {
+        inserted: toInsert.length,
+        updated: toUpdate.length,
+        unchanged,
+        deleted,
+        availabilityFlipped,
+      };
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+}
 
-    const minStay =
-      raw.minimumStay ??
-      raw.minNights ??
-      raw.minStay ??
-      1;
-
-    const day = await prisma.calendarDay.upsert({
-      where: {
-        listingId_date: {
-          listingId: listing.id,
-          date: dateOnly,
-        },
-      },
-      create: {
-        listing: {
-          connect: { id: listing.id },
-        },
-        date: dateOnly,
-        available,
-        price: priceDecimal,
-        minStay,
-      },
-      update: {
-        available,
-        price: priceDecimal,
-        minStay,
-      },
+// How many of one host's calendars a sweep syncs at the same time.
+export function getCalendarSweepConcurrency(): number {
+  return readPositiveIntEnv(
+    "CALENDAR_SWEEP_PER_HOST_CONCURRENCY",
+    DEFAULT_SWEEP_PER_HOST_CONCURRENCY
+  );
+}
+
+export type CalendarSweepHost = {
+  hostId: string;
+  // Least recently synced first
+  listingIds: string[];
+};
+
+/**
+ * Plans a calendar refresh for every active listing, grouped by host. Each
+ * host's listings are synced by a single job, so one large account can't
+ * exhaust its Guesty budget or crowd out everyone else.
+ */
+export async function planCalendarSweep(): Promise<CalendarSweepHost[]> {
+  const listings: { id: string; hostId: string }[] =
+    await prisma.listing.findMany({
+      where: { status: "active" },
+      select: { id: true, hostId: true },
+      orderBy: [
+        { calendarSyncedAt: { sort: "asc", nulls: "first" } },
+        { createdAt: "asc" },
+      ],
     });
 
-    syncedDays.push(day);
+  const byHost = new Map<string, string[]>();
+  for (const listing of listings) {
+    const ids = byHost.get(listing.hostId) ?? [];
+    ids.push(listing.id);
+    byHost.set(listing.hostId, ids);
   }
 
-  return syncedDays;
+  return Array.from(byHost, ([hostId, listingIds]) => ({
+    hostId,
+    listingIds,
+  }));
 }
-
@@ -0,0 +1,106 @@
+import { LatLng, haversineKm, parseLatLng } from "../lib/geo";
+
+// Offline heuristic: straight-line distance scaled up to an approximate road
+// distance, driven at an average urban speed, plus a fixed door-to-door overhead.
+const ROAD_DETOUR_FACTOR = 1.4;
+const AVERAGE_SPEED_KMH = 40;
+const OVERHEAD_MINUTES = 5;
+
+export const MAX_WORKPLACES = 5;
+
+// Search only considers listings within this commute of every workplace, so a
+// workplace without a tighter maxCommute still gets a geographic prefilter.
+// In search, over_60 therefore means 61 to 120 minutes; responses carry the
+// cap as maxCommuteMinutes.
+export const MAX_SEARCH_COMMUTE_MINUTES = 120;
+
+export const COMMUTE_BANDS = [
+  { band: "under_15", maxMinutes: 15 },
+  { band: "15_30", maxMinutes: 30 },
+  { band: "30_45", maxMinutes: 45 },
+  { band: "45_60", maxMinutes: 60 },
+  { band: "over_60", maxMinutes: Number.POSITIVE_INFINITY },
+] as const;
+
+export type CommuteBand = (typeof COMMUTE_BANDS)[number]["band"];
+
+export type CommuteEstimate = {
+  workplace: LatLng;
+  distanceKm: number;
+  estimatedMinutes: number;
+  band: CommuteBand;
+};
+
+// Whole minutes, so the band, the maxCommute filter and the displayed value
+// all agree on the same number.
+export function estimateCommuteMinutes(distanceKm: number): number {
+  return Math.round(
+    (distanceKm * ROAD_DETOUR_FACTOR * 60) / AVERAGE_SPEED_KMH +
+      OVERHEAD_MINUTES
+  );
+}
+
+export function commuteBandForMinutes(minutes: number): CommuteBand {
+  const match = COMMUTE_BANDS.find((entry) => minutes <= entry.maxMinutes);
+  return match?.band ?? "over_60";
+}
+
+export function commuteBandMaxMinutes(band: CommuteBand): number {
+  return (
+    COMMUTE_BANDS.find((entry) => entry.band === band)?.maxMinutes ??
+    Number.POSITIVE_INFINITY
+  );
+}
+
+export function parseCommuteBand(value: unknown): CommuteBand | null {
+  const match = COMMUTE_BANDS.find((entry) => entry.band === value);
+  return match?.band ?? null;
+}
+
+// Largest straight-line distance that can still fall within `minutes`, used to
+// prefilter candidates with a bounding box. The extra half minute covers
+// estimates that round down to `minutes`.
+export function maxDistanceKmForMinutes(minutes: number): number {
+  return Math.max(
+    0,
+    ((minutes + 0.5 - OVERHEAD_MINUTES) * AVERAGE_SPEED_KMH) /
+      (60 * ROAD_DETOUR_FACTOR)
+  );
+}
+
+export function estimateCommute(from: LatLng, workplace: LatLng): CommuteEstimate {
+  const distanceKm = haversineKm(from, workplace);
+  const estimatedMinutes = estimateCommuteMinutes(distanceKm);
+
+  return {
+    workplace,
+    distanceKm: Math.round(distanceKm * 100) / 100,
+    estimatedMinutes,
+    band: commuteBandForMinutes(estimatedMinutes),
+  };
+}
+
+/**
+ * Accepts `workplace=lat,lng` repeated, or several points separated by `;`.
+ * Returns null if any point is malformed or there are too many.
+ */
+export function parseWorkplaces(value: unknown): LatLng[] | null {
+  const raw = Array.isArray(value) ? value : value != null ? [value] : [];
+  const workplaces: LatLng[] = [];
+
+  for (const entry of raw) {
+    if (typeof entry !== "string") {
+      return null;
+    }
+
+    for (const part of entry.split(";")) {
+      const point = parseLatLng(part.trim());
+      if (!point) {
+        return null;
+      }
+      workplaces.push(point);
+    }
+  }
+
+  return workplaces.length <= MAX_WORKPLACES ? workplaces : null;
+}
@@ -0,0 +1,340 @@
+import {
+  BookingRequest,
+  Conversation,
+  Message,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { AuthContext } from "../lib/auth";
+import { hasConfirmedReservation } from "./bookingRequests";
+
+export const MAX_MESSAGE_LENGTH = 4000;
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+export const CONTACT_DETAILS_PLACEHOLDER =
+  "[contact details hidden until a booking is confirmed]";
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+// Digits grouped the way phone numbers are written, not within a longer
+// number. A bare run of digits only counts with a leading `+`, so dates
+// (2025-03-01), year ranges (2025-2026), amounts and confirmation codes stay.
+const PHONE_PATTERN = new RegExp(
+  [
+    // 555-123-4567, (555) 123 4567, +1 555.123.4567
+    String.raw`(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}`,
+    // 06 12 34 56 78
+    String.raw`0\d(?:[\s.-]\d{2}){4}`,
+    // +15551234567, +44 20 7946 0958
+    String.raw`\+\d(?:[\s.-]?\d){7,14}`,
+  ]
+    .map((alternative) => `(?<![\\d+])(?:${alternative})(?!\\d)`)
+    .join("|"),
+  "g"
+);
+
+export class ConversationError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "ConversationError";
+  }
+}
+
+type ConversationSummary = Conversation & {
+  listing: { id: string; title: string; city: string | null };
+  guest: { id: string; name: string | null };
+  messages: Message[];
+};
+
+const SUMMARY_INCLUDE = {
+  listing: { select: { id: true, title: true, city: true } },
+  guest: { select: { id: true, name: true } },
+  messages: { orderBy: { createdAt: "desc" }, take: 1 },
+};
+
+/**
+ * Replaces email addresses and phone numbers so guests and hosts can't take
+ * the conversation off-platform before a booking is confirmed.
+ */
+export function redactContactDetails(text: string): {
+  body: string;
+  redacted: boolean;
+} {
+  let redacted = false;
+
+  const body = text
+    .replace(EMAIL_PATTERN, () => {
+      redacted = true;
+      return CONTACT_DETAILS_PLACEHOLDER;
+    })
+    .replace(PHONE_PATTERN, () => {
+      redacted = true;
+      return CONTACT_DETAILS_PLACEHOLDER;
+    });
+
+  return { body, redacted };
+}
+
+export function normalizeMessageBody(body: unknown): string {
+  if (typeof body !== "string" || !body.trim()) {
+    throw new ConversationError("body is required", 400);
+  }
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    throw new ConversationError(
+      `body can be at most ${MAX_MESSAGE_LENGTH} characters`,
+      400
+    );
+  }
+  return body.trim();
+}
+
+// Approval alone isn't enough: one of the guest's approved requests must
+// have become a confirmed reservation.
+async function hasConfirmedBooking(
+  conversation: Pick<Conversation, "listingId" | "guestId">
+): Promise<boolean> {
+  const approved: Pick<
+    BookingRequest,
+    "listingId" | "startDate" | "endDate"
+  >[] = await prisma.bookingRequest.findMany({
+    where: {
+      listingId: conversation.listingId,
+      guestId: conversation.guestId,
+      status: "approved",
+    },
+    select: { listingId: true, startDate: true, endDate: true },
+  });
+
+  for (const request of approved) {
+    if (await hasConfirmedReservation(request)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isParticipant(
+  conversation: Conversation,
+  participant: AuthContext
+): boolean {
+  return participant.role === "host"
+    ? conversation.hostId === participant.id
+    : conversation.guestId === participant.id;
+}
+
+async function getConversationFor(
+  participant: AuthContext,
+  id: string
+): Promise<Conversation> {
+  const conversation = await prisma.conversation.findUnique({ where: { id } });
+  if (!conversation || !isParticipant(conversation, participant)) {
+    throw new ConversationError("Conversation not found", 404);
+  }
+  return conversation;
+}
+
+function toConversationResponse(
+  conversation: ConversationSummary,
+  participant: AuthContext
+) {
+  const { messages, guestUnreadCount, hostUnreadCount, ...rest } =
+    conversation;
+  return {
+    ...rest,
+    unreadCount:
+      participant.role === "host" ? hostUnreadCount : guestUnreadCount,
+    lastMessage: messages[0] ?? null,
+  };
+}
+
+async function appendMessage(
+  conversation: Conversation,
+  senderRole: AuthContext["role"],
+  text: string
+): Promise<Message> {
+  const { body, redacted } = (await hasConfirmedBooking(conversation))
+    ? { body: text, redacted: false }
+    : redactContactDetails(text);
+
+  const [message] = await prisma.$transaction([
+    prisma.message.create({
+      data: { conversationId: conversation.id, senderRole, body, redacted },
+    }),
+    prisma.conversation.update({
+      where: { id: conversation.id },
+      data: {
+        lastMessageAt: new Date(),
+        // Sending also means the sender has read everything so far.
+        ...(senderRole === "guest"
+          ? {
+              hostUnreadCount: { increment: 1 },
+              guestUnreadCount: 0,
+              guestLastReadAt: new Date(),
+            }
+          : {
+              guestUnreadCount: { increment: 1 },
+              hostUnreadCount: 0,
+              hostLastReadAt: new Date(),
+            }),
+      },
+    }),
+  ]);
+
+  return message;
+}
+
+/**
+ * Opens (or reuses) the guest's thread about a listing and posts the first
+ * message. A booking request can be attached if it is the guest's own and
+ * for the same listing.
+ */
+export async function startConversation(
+  guestId: string,
+  input: { listingId: string; bookingRequestId?: string; body: string }
+): Promise<{ conversation: Conversation; message: Message }> {
+  const listing = await prisma.listing.findFirst({
+    where: { id: input.listingId, status: "active" },
+    select: { id: true, hostId: true },
+  });
+
+  if (!listing) {
+    throw new ConversationError("Listing not found", 404);
+  }
+
+  if (input.bookingRequestId) {
+    const request = await prisma.bookingRequest.findUnique({
+      where: { id: input.bookingRequestId },
+      select: { guestId: true, listingId: true },
+    });
+
+    if (
+      !request ||
+      request.guestId !== guestId ||
+      request.listingId !== listing.id
+    ) {
+      throw new ConversationError("Booking request not found", 404);
+    }
+  }
+
+  const conversation: Conversation = await prisma.conversation.upsert({
+    where: { listingId_guestId: { listingId: listing.id, guestId } },
+    create: {
+      listingId: listing.id,
+      guestId,
+      hostId: listing.hostId,
+      bookingRequestId: input.bookingRequestId ?? null,
+    },
+    update: input.bookingRequestId
+      ? { bookingRequestId: input.bookingRequestId }
+      : {},
+  });
+
+  const message = await appendMessage(conversation, "guest", input.body);
+  return { conversation, message };
+}
+
+export async function sendMessage(
+  participant: AuthContext,
+  conversationId: string,
+  body: string
+): Promise<Message> {
+  const conversation = await getConversationFor(participant, conversationId);
+  return appendMessage(conversation, participant.role, body);
+}
+
+/**
+ * Newest first; pass the oldest `createdAt` seen as `before` for the next
+ * page. Reading the latest page marks the conversation as read.
+ */
+export async function listMessages(
+  participant: AuthContext,
+  conversationId: string,
+  options: { before?: Date; limit?: number } = {}
+): Promise<Message[]> {
+  const conversation = await getConversationFor(participant, conversationId);
+
+  const query = {
+    where: {
+      conversationId: conversation.id,
+      ...(options.before ? { createdAt: { lt: options.before } } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: options.limit ?? DEFAULT_MESSAGE_PAGE_SIZE,
+  };
+
+  if (options.before) {
+    return prisma.message.findMany(query);
+  }
+
+  // The row lock makes appendMessage's counter increment wait until the
+  // reset commits, so a message sent meanwhile is either on this page or
+  // still counted as unread afterwards.
+  return prisma.$transaction(async (tx: typeof prisma) => {
+    await tx.$queryRaw(Prisma.sql`
+      SELECT 1 FROM "Conversation" WHERE "id" = ${conversation.id} FOR UPDATE
+    `);
+
+    const messages: Message[] = await tx.message.findMany(query);
+
+    await tx.conversation.update({
+      where: { id: conversation.id },
+      data:
+        participant.role === "host"
+          ? { hostUnreadCount: 0, hostLastReadAt: new Date() }
+          : { guestUnreadCount: 0, guestLastReadAt: new Date() },
+    });
+
+    return messages;
+  });
+}
+
+// The guest's threads, or the host's inbox across all of their listings.
+export async function listConversations(
+  participant: AuthContext,
+  options: { unreadOnly?: boolean; listingId?: string } = {}
+) {
+  const unreadField =
+    participant.role === "host" ? "hostUnreadCount" : "guestUnreadCount";
+
+  const conversations: ConversationSummary[] =
+    await prisma.conversation.findMany({
+      where: {
+        ...(participant.role === "host"
+          ? { hostId: participant.id }
+          : { guestId: participant.id }),
+        ...(options.listingId ? { listingId: options.listingId } : {}),
+        ...(options.unreadOnly ? { [unreadField]: { gt: 0 } } : {}),
+      },
+      orderBy: { lastMessageAt: "desc" },
+      include: SUMMARY_INCLUDE,
+      take: 100,
+    });
+
+  return conversations.map((conversation) =>
+    toConversationResponse(conversation, participant)
+  );
+}
+
+export async function countUnreadMessages(
+  participant: AuthContext
+): Promise<{ unreadMessages: number; unreadConversations: number }> {
+  const unreadField =
+    participant.role === "host" ? "hostUnreadCount" : "guestUnreadCount";
+
+  const result = await prisma.conversation.aggregate({
+    where: {
+      ...(participant.role === "host"
+        ? { hostId: participant.id }
+        : { guestId: participant.id }),
+      [unreadField]: { gt: 0 },
+    },
+    _sum: { [unreadField]: true },
+    _count: { _all: true },
+  });
+
+  return {
+    unreadMessages: result._sum[unreadField] ?? 0,
+    unreadConversations: result._count._all,
+  };
+}
@@ -0,0 +1,119 @@
+import { DeadLetterJob } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+
+export type DeadLetterJobStatus = "dead" | "retried" | "discarded";
+
+export const DEAD_LETTER_JOB_STATUSES: DeadLetterJobStatus[] = [
+  "dead",
+  "retried",
+  "discarded",
+];
+
+export type DeadLetterJobInput = {
+  queue: string;
+  jobName: string;
+  jobId: string | null;
+  data: Record<string, unknown>;
+  error: string;
+  stacktrace: string | null;
+  attemptsMade: number;
+};
+
+export type DeadLetterJobFilter = {
+  hostId?: string;
+  status?: DeadLetterJobStatus;
+  jobName?: string;
+};
+
+// Job payloads carry different ids; map each back to the owning host.
+async function resolveJobHostId(
+  jobName: string,
+  data: Record<string, unknown>
+): Promise<string | null> {
+  if (typeof data.hostId === "string") {
+    return data.hostId;
+  }
+
+  if (typeof data.listingId === "string") {
+    const listing = await prisma.listing.findUnique({
+      where: { id: data.listingId },
+      select: { hostId: true },
+    });
+    return listing?.hostId ?? null;
+  }
+
+  if (
+    jobName === "expire-booking-request" &&
+    typeof data.bookingRequestId === "string"
+  ) {
+    const request = await prisma.bookingRequest.findUnique({
+      where: { id: data.bookingRequestId },
+      select: { listing: { select: { hostId: true } } },
+    });
+    return request?.listing.hostId ?? null;
+  }
+
+  return null;
+}
+
+export async function recordDeadLetterJob(
+  input: DeadLetterJobInput
+): Promise<DeadLetterJob> {
+  const hostId = await resolveJobHostId(input.jobName, input.data);
+
+  return prisma.deadLetterJob.create({
+    data: {
+      ...input,
+      data: input.data as object,
+      hostId,
+    },
+  });
+}
+
+export async function listDeadLetterJobs(
+  filter: DeadLetterJobFilter,
+  limit: number
+): Promise<DeadLetterJob[]> {
+  return prisma.deadLetterJob.findMany({
+    where: {
+      status: filter.status ?? "dead",
+      ...(filter.hostId ? { hostId: filter.hostId } : {}),
+      ...(filter.jobName ? { jobName: filter.jobName } : {}),
+    },
+    orderBy: { failedAt: "desc" },
+    take: limit,
+  });
+}
+
+export async function findDeadLetterJob(
+  id: string,
+  hostId?: string
+): Promise<DeadLetterJob | null> {
+  const job = await prisma.deadLetterJob.findUnique({ where: { id } });
+
+  if (!job || (hostId && job.hostId !== hostId)) {
+    return null;
+  }
+
+  return job;
+}
+
+// Only transitions a job that is still dead, so a double click can't enqueue twice.
+export async function resolveDeadLetterJob(
+  id: string,
+  status: Exclude<DeadLetterJobStatus, "dead">
+): Promise<boolean> {
+  const result = await prisma.deadLetterJob.updateMany({
+    where: { id, status: "dead" },
+    data: { status, resolvedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+// Undoes a `retried` resolution whose re-enqueue failed, so it can be retried.
+export async function reopenDeadLetterJob(id: string): Promise<void> {
+  await prisma.deadLetterJob.updateMany({
+    where: { id, status: "retried" },
+    data: { status: "dead", resolvedAt: null },
+  });
+}
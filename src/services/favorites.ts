@@ -0,0 +1,221 @@
+import { Favorite } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { PHOTO_SELECT, PhotoResult } from "./listingSearch";
+
+export const MAX_FAVORITE_NOTE_LENGTH = 500;
+
+export class FavoriteError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "FavoriteError";
+  }
+}
+
+// Enough to render a card in a favorites list or a shared shortlist.
+export const LISTING_CARD_SELECT = {
+  id: true,
+  title: true,
+  neighborhood: true,
+  city: true,
+  state: true,
+  bedrooms: true,
+  bathrooms: true,
+  maxGuests: true,
+  basePrice: true,
+  status: true,
+  calendarSyncedAt: true,
+  photos: {
+    where: { isCover: true },
+    take: 1,
+    select: PHOTO_SELECT,
+  },
+};
+
+export type ListingCard = {
+  id: string;
+  title: string;
+  basePrice: number | null;
+  photos: PhotoResult[];
+  [key: string]: unknown;
+};
+
+export function toListingCard({ photos, ...listing }: ListingCard) {
+  return { ...listing, coverPhoto: photos[0] ?? null };
+}
+
+export function normalizeFavoriteNote(note: unknown): string | null {
+  if (note == null) {
+    return null;
+  }
+  if (typeof note !== "string") {
+    throw new FavoriteError("note must be a string", 400);
+  }
+  if (note.length > MAX_FAVORITE_NOTE_LENGTH) {
+    throw new FavoriteError(
+      `note can be at most ${MAX_FAVORITE_NOTE_LENGTH} characters`,
+      400
+    );
+  }
+  return note.trim() || null;
+}
+
+/**
+ * Favorites a listing, or updates the note when it already is one. The
+ * current base price becomes the reference for the price-change flag.
+ */
+export async function addFavorite(
+  guestId: string,
+  listingId: string,
+  note?: string | null
+): Promise<Favorite> {
+  const listing = await prisma.listing.findFirst({
+    where: { id: listingId, status: "active" },
+    select: { basePrice: true },
+  });
+
+  if (!listing) {
+    throw new FavoriteError("Listing not found", 404);
+  }
+
+  return prisma.favorite.upsert({
+    where: { guestId_listingId: { guestId, listingId } },
+    create: {
+      guestId,
+      listingId,
+      note: note ?? null,
+      seenBasePrice: listing.basePrice,
+    },
+    update: note !== undefined ? { note } : {},
+  });
+}
+
+export async function findFavorite(guestId: string, listingId: string) {
+  const favorite:
+    | (Favorite & { shortlistItems: { shortlistId: string }[] })
+    | null = await prisma.favorite.findUnique({
+    where: { guestId_listingId: { guestId, listingId } },
+    include: { shortlistItems: { select: { shortlistId: true } } },
+  });
+
+  if (!favorite) {
+    return null;
+  }
+
+  const { shortlistItems, ...rest } = favorite;
+  return {
+    ...rest,
+    shortlistIds: shortlistItems.map((item) => item.shortlistId),
+  };
+}
+
+export async function removeFavorite(
+  guestId: string,
+  listingId: string
+): Promise<boolean> {
+  const result = await prisma.favorite.deleteMany({
+    where: { guestId, listingId },
+  });
+  return result.count > 0;
+}
+
+export async function listFavorites(guestId: string) {
+  const favorites: (Favorite & {
+    listing: ListingCard;
+    shortlistItems: { shortlistId: string }[];
+  })[] = await prisma.favorite.findMany({
+    where: { guestId },
+    orderBy: { createdAt: "desc" },
+    include: {
+      listing: { select: LISTING_CARD_SELECT },
+      shortlistItems: { select: { shortlistId: true } },
+    },
+  });
+
+  return favorites.map(({ listing, shortlistItems, ...favorite }) => ({
+    ...favorite,
+    listing: toListingCard(listing),
+    shortlistIds: shortlistItems.map((item) => item.shortlistId),
+  }));
+}
+
+// Marks the changes as seen: clears the flags and re-baselines the price.
+export async function acknowledgeFavorite(
+  guestId: string,
+  listingId: string
+): Promise<Favorite> {
+  const favorite = await prisma.favorite.findUnique({
+    where: { guestId_listingId: { guestId, listingId } },
+    include: { listing: { select: { basePrice: true } } },
+  });
+
+  if (!favorite) {
+    throw new FavoriteError("Favorite not found", 404);
+  }
+
+  return prisma.favorite.update({
+    where: { id: favorite.id },
+    data: {
+      seenBasePrice: favorite.listing.basePrice,
+      priceChanged: false,
+      availabilityChanged: false,
+      changedAt: null,
+    },
+  });
+}
+
+/**
+ * Raises the change flags on favorites of listings a sync just touched.
+ * Price is compared with the base price the guest last saw; availability is
+ * reported by the calendar sync itself, since a window that rolls forward
+ * every day would otherwise look like a change.
+ */
+export async function flagFavoriteChanges(
+  listingIds: string[],
+  options: { availabilityChanged?: boolean } = {}
+): Promise<number> {
+  if (listingIds.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+  let flagged = 0;
+
+  if (options.availabilityChanged) {
+    const result = await prisma.favorite.updateMany({
+      where: { listingId: { in: listingIds }, availabilityChanged: false },
+      data: { availabilityChanged: true, changedAt: now },
+    });
+    flagged += result.count;
+  }
+
+  const listings: { id: string; basePrice: number | null }[] =
+    await prisma.listing.findMany({
+      where: { id: { in: listingIds }, favorites: { some: {} } },
+      select: { id: true, basePrice: true },
+    });
+
+  for (const listing of listings) {
+    // Spelled out because `<>` never matches a NULL on either side.
+    const priceDiffers =
+      listing.basePrice == null
+        ? { seenBasePrice: { not: null } }
+        : {
+            OR: [
+              { seenBasePrice: null },
+              { seenBasePrice: { not: listing.basePrice } },
+            ],
+          };
+
+    const result = await prisma.favorite.updateMany({
+      where: {
+        listingId: listing.id,
+        priceChanged: false,
+        ...priceDiffers,
+      },
+      data: { priceChanged: true, changedAt: now },
+    });
+    flagged += result.count;
+  }
+
+  return flagged;
+}
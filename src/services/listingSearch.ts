@@ -0,0 +1,1007 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import {
+  BoundingBox,
+  LatLng,
+  boundingBoxAround,
+  boundingBoxSql,
+  haversineKm,
+  isInBoundingBox,
+  parseBoundingBox,
+  parseLatLng,
+} from "../lib/geo";
+import { NIGHTS_PER_MONTH, countNights, parseStayDate } from "./stayQuote";
+import {
+  StayPricing,
+  lengthOfStayFactorSql,
+  stayPriceFilterSql,
+  stayPricingJoinSql,
+} from "./stayAvailability";
+import {
+  CommuteBand,
+  CommuteEstimate,
+  MAX_SEARCH_COMMUTE_MINUTES,
+  commuteBandForMinutes,
+  commuteBandMaxMinutes,
+  estimateCommute,
+  maxDistanceKmForMinutes,
+  parseCommuteBand,
+  parseWorkplaces,
+} from "./commute";
+import {
+  AMENITY_KEYS,
+  AmenityFacet,
+  AmenityKey,
+  amenityFacetsFromCounts,
+  parseAmenityFilter,
+  tallyAmenityFacets,
+} from "./amenities";
+import {
+  MAX_QUERY_LENGTH,
+  buildListingSnippets,
+  listingTextMatchSql,
+} from "./listingTextSearch";
+import {
+  SEARCH_SORTS,
+  SearchSort,
+  SortKey,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  isDescendingSort,
+  paginateSortKeys,
+  parseSearchSort,
+} from "./searchSort";
+
+const DEFAULT_RADIUS_KM = 25;
+const MAX_RADIUS_KM = 500;
+
+// Searches near a point or workplace filter and sort in memory; past this
+// many candidates the caller has to narrow the search.
+const MAX_IN_MEMORY_MATCHES = 5000;
+
+export const PHOTO_SELECT = {
+  url: true,
+  thumbnailUrl: true,
+  caption: true,
+  width: true,
+  height: true,
+  isCover: true,
+};
+
+export type PhotoResult = {
+  url: string;
+  thumbnailUrl: string | null;
+  caption: string | null;
+  width: number | null;
+  height: number | null;
+  isCover: boolean;
+};
+
+const SEARCH_RESULT_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  neighborhood: true,
+  city: true,
+  state: true,
+  lat: true,
+  lng: true,
+  bedrooms: true,
+  bathrooms: true,
+  maxGuests: true,
+  // Search cards only need the cover
+  photos: {
+    where: { isCover: true },
+    take: 1,
+    select: PHOTO_SELECT,
+  },
+  amenities: true,
+  amenityKeys: true,
+  basePrice: true,
+};
+
+// Raised for invalid search parameters; routes answer with a 400.
+export class ListingSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ListingSearchError";
+  }
+}
+
+// `req.query`, or a saved search's stored copy of it.
+export type ListingSearchQuery = Record<string, unknown>;
+
+export type ListingSearchParams = {
+  q: string | undefined;
+  city: string | undefined;
+  state: string | undefined;
+  bedrooms: number | undefined;
+  bedroomsMin: number | undefined;
+  bedroomsMax: number | undefined;
+  minPrice: number | undefined;
+  maxPrice: number | undefined;
+  minMonthlyPrice: number | undefined;
+  maxMonthlyPrice: number | undefined;
+  startDate: Date | undefined;
+  endDate: Date | undefined;
+  near: LatLng | undefined;
+  bbox: BoundingBox | undefined;
+  radiusKm: number;
+  workplaces: LatLng[];
+  maxCommute: CommuteBand | undefined;
+  amenityKeys: AmenityKey[];
+  sort: SearchSort;
+  cursor: (SortKey & { sort: SearchSort }) | null;
+  page: number;
+  pageSize: number;
+};
+
+export type ListingSearchOptions = {
+  // Only consider these listings (saved-search alerts after a sync)
+  listingIds?: string[];
+};
+
+export type ListingSearchResponse = {
+  page?: number;
+  pageSize: number;
+  sort: SearchSort;
+  total: number;
+  nextCursor: string | null;
+  // Set for workplace searches: no result commutes longer than this, even
+  // without maxCommute or with over_60
+  maxCommuteMinutes?: number;
+  facets: { amenities: AmenityFacet[] };
+  results: any[];
+};
+
+/**
+ * Validates `GET /listings` query parameters. Throws ListingSearchError with
+ * a message suitable for the client when something is malformed.
+ */
+export function parseListingSearch(
+  query: ListingSearchQuery
+): ListingSearchParams {
+  const q = typeof query.q === "string" ? query.q.trim() : undefined;
+  const city = typeof query.city === "string" ? query.city : undefined;
+  const state = typeof query.state === "string" ? query.state : undefined;
+
+  const bedroomsParam =
+    typeof query.bedrooms === "string" ? query.bedrooms : undefined;
+  const bedroomsMinParam =
+    typeof query.bedroomsMin === "string" ? query.bedroomsMin : undefined;
+  const bedroomsMaxParam =
+    typeof query.bedroomsMax === "string" ? query.bedroomsMax : undefined;
+
+  const minPriceParam =
+    typeof query.minPrice === "string" ? query.minPrice : undefined;
+  const maxPriceParam =
+    typeof query.maxPrice === "string" ? query.maxPrice : undefined;
+  const minMonthlyPriceParam =
+    typeof query.minMonthlyPrice === "string"
+      ? query.minMonthlyPrice
+      : undefined;
+  const maxMonthlyPriceParam =
+    typeof query.maxMonthlyPrice === "string"
+      ? query.maxMonthlyPrice
+      : undefined;
+
+  const startDateParam =
+    typeof query.startDate === "string" ? query.startDate : undefined;
+  const endDateParam =
+    typeof query.endDate === "string" ? query.endDate : undefined;
+
+  const nearParam = typeof query.near === "string" ? query.near : undefined;
+  const radiusKmParam =
+    typeof query.radiusKm === "string" ? query.radiusKm : undefined;
+  const bboxParam = typeof query.bbox === "string" ? query.bbox : undefined;
+
+  const maxCommuteParam =
+    typeof query.maxCommute === "string" ? query.maxCommute : undefined;
+  const sortParam = typeof query.sort === "string" ? query.sort : undefined;
+
+  const cursorParam =
+    typeof query.cursor === "string" ? query.cursor : undefined;
+  const pageParam = typeof query.page === "string" ? query.page : undefined;
+  const pageSizeParam =
+    typeof query.pageSize === "string" ? query.pageSize : undefined;
+
+  const page = Math.max(1, pageParam ? Number.parseInt(pageParam, 10) : 1);
+  const pageSize = Math.min(
+    50,
+    Math.max(1, pageSizeParam ? Number.parseInt(pageSizeParam, 10) : 20)
+  );
+
+  const bedrooms =
+    bedroomsParam != null ? Number.parseInt(bedroomsParam, 10) : undefined;
+  const bedroomsMin =
+    bedroomsMinParam != null
+      ? Number.parseInt(bedroomsMinParam, 10)
+      : undefined;
+  const bedroomsMax =
+    bedroomsMaxParam != null
+      ? Number.parseInt(bedroomsMaxParam, 10)
+      : undefined;
+
+  const minPrice =
+    minPriceParam != null ? Number.parseFloat(minPriceParam) : undefined;
+  const maxPrice =
+    maxPriceParam != null ? Number.parseFloat(maxPriceParam) : undefined;
+  const minMonthlyPrice =
+    minMonthlyPriceParam != null
+      ? Number.parseFloat(minMonthlyPriceParam)
+      : undefined;
+  const maxMonthlyPrice =
+    maxMonthlyPriceParam != null
+      ? Number.parseFloat(maxMonthlyPriceParam)
+      : undefined;
+
+  const startDate =
+    startDateParam != null ? parseStayDate(startDateParam) : undefined;
+  const endDate =
+    endDateParam != null ? parseStayDate(endDateParam) : undefined;
+
+  if (startDate === null || endDate === null) {
+    throw new ListingSearchError("startDate and endDate must be YYYY-MM-DD");
+  }
+
+  if ((startDate == null) !== (endDate == null)) {
+    throw new ListingSearchError(
+      "startDate and endDate must be provided together"
+    );
+  }
+
+  if (startDate && endDate && endDate.getTime() <= startDate.getTime()) {
+    throw new ListingSearchError("endDate must be after startDate");
+  }
+
+  const near = nearParam != null ? parseLatLng(nearParam) : undefined;
+  const bbox = bboxParam != null ? parseBoundingBox(bboxParam) : undefined;
+  const radiusKm =
+    radiusKmParam != null
+      ? Number.parseFloat(radiusKmParam)
+      : DEFAULT_RADIUS_KM;
+
+  if (near === null) {
+    throw new ListingSearchError("near must be lat,lng");
+  }
+
+  if (bbox === null) {
+    throw new ListingSearchError("bbox must be minLng,minLat,maxLng,maxLat");
+  }
+
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+    throw new ListingSearchError(
+      `radiusKm must be between 0 and ${MAX_RADIUS_KM}`
+    );
+  }
+
+  const workplaces = parseWorkplaces(query.workplace);
+  const maxCommute =
+    maxCommuteParam != null ? parseCommuteBand(maxCommuteParam) : undefined;
+
+  if (!workplaces) {
+    throw new ListingSearchError(
+      "workplace must be lat,lng (up to 5, repeated or ;-separated)"
+    );
+  }
+
+  if (maxCommute === null) {
+    throw new ListingSearchError("maxCommute is not a known commute band");
+  }
+
+  const requestedSort =
+    sortParam != null ? parseSearchSort(sortParam) : undefined;
+
+  if (requestedSort === null) {
+    throw new ListingSearchError(
+      `sort must be one of ${SEARCH_SORTS.join(", ")}`
+    );
+  }
+
+  if (
+    (maxCommute || requestedSort === "commute") &&
+    workplaces.length === 0
+  ) {
+    throw new ListingSearchError(
+      "workplace is required for commute filtering or sorting"
+    );
+  }
+
+  if (requestedSort === "distance" && !near) {
+    throw new ListingSearchError("near is required to sort by distance");
+  }
+
+  if (requestedSort === "relevance" && !q) {
+    throw new ListingSearchError("q is required to sort by relevance");
+  }
+
+  // Default: relevance, then distance, then commute, then newest.
+  const sort: SearchSort =
+    requestedSort ??
+    (q
+      ? "relevance"
+      : near
+      ? "distance"
+      : workplaces.length > 0
+      ? "commute"
+      : "newest");
+
+  const cursor = cursorParam != null ? decodeSearchCursor(cursorParam) : null;
+
+  if (cursorParam != null && !cursor) {
+    throw new ListingSearchError("cursor is invalid");
+  }
+
+  if (cursor && cursor.sort !== sort) {
+    throw new ListingSearchError("cursor was issued for a different sort");
+  }
+
+  if (q && q.length > MAX_QUERY_LENGTH) {
+    throw new ListingSearchError(
+      `q must be at most ${MAX_QUERY_LENGTH} characters`
+    );
+  }
+
+  const amenityKeys = parseAmenityFilter(query.amenities);
+
+  if (!amenityKeys) {
+    throw new ListingSearchError(
+      `amenities must be a comma-separated list of: ${AMENITY_KEYS.join(", ")}`
+    );
+  }
+
+  return {
+    q,
+    city,
+    state,
+    bedrooms,
+    bedroomsMin,
+    bedroomsMax,
+    minPrice,
+    maxPrice,
+    minMonthlyPrice,
+    maxMonthlyPrice,
+    startDate,
+    endDate,
+    near,
+    bbox,
+    radiusKm,
+    workplaces,
+    maxCommute,
+    amenityKeys,
+    sort,
+    cursor,
+    page,
+    pageSize,
+  };
+}
+
+// Longest commute a match may have to any of the search's workplaces.
+function searchMaxCommuteMinutes(params: ListingSearchParams): number {
+  // Without maxCommute (or with over_60) the search-wide cap still applies;
+  // searchListings reports it as maxCommuteMinutes.
+  return Math.min(
+    params.maxCommute
+      ? commuteBandMaxMinutes(params.maxCommute)
+      : Number.POSITIVE_INFINITY,
+    MAX_SEARCH_COMMUTE_MINUTES
+  );
+}
+
+// What mightMatchListing needs to know about a listing.
+export const LISTING_PREFILTER_SELECT = {
+  id: true,
+  status: true,
+  city: true,
+  state: true,
+  bedrooms: true,
+  basePrice: true,
+  amenityKeys: true,
+  lat: true,
+  lng: true,
+};
+
+export type ListingPrefilterFields = {
+  id: string;
+  status: string;
+  city: string | null;
+  state: string | null;
+  bedrooms: number | null;
+  basePrice: number | null;
+  amenityKeys: string[];
+  lat: number | null;
+  lng: number | null;
+};
+
+/**
+ * The search's column and geo filters checked against one listing in
+ * memory. False means it can't match; true only that it might, since stay
+ * availability and `q` aren't checked. Lets saved-search evaluation skip the
+ * query for searches none of a sync's listings could match, so it has to
+ * stay in step with buildSearchSql.
+ */
+export function mightMatchListing(
+  params: ListingSearchParams,
+  listing: ListingPrefilterFields
+): boolean {
+  const {
+    city,
+    state,
+    bedrooms,
+    bedroomsMin,
+    bedroomsMax,
+    minPrice,
+    maxPrice,
+    startDate,
+    near,
+    bbox,
+    radiusKm,
+    workplaces,
+    amenityKeys,
+  } = params;
+
+  if (listing.status !== "active") {
+    return false;
+  }
+
+  const point =
+    listing.lat != null && listing.lng != null
+      ? { lat: listing.lat, lng: listing.lng }
+      : null;
+
+  if ((bbox || near || workplaces.length > 0) && !point) {
+    return false;
+  }
+
+  if (point && bbox && !isInBoundingBox(point, bbox)) {
+    return false;
+  }
+
+  if (point && near && haversineKm(near, point) > radiusKm) {
+    return false;
+  }
+
+  if (point && workplaces.length > 0) {
+    const maxCommuteMinutes = searchMaxCommuteMinutes(params);
+    const tooFar = workplaces.some(
+      (workplace) =>
+        estimateCommute(point, workplace).estimatedMinutes > maxCommuteMinutes
+    );
+    if (tooFar) {
+      return false;
+    }
+  }
+
+  const sameText = (value: string | null, wanted: string | undefined) =>
+    !wanted || value?.toLowerCase() === wanted.toLowerCase();
+
+  if (!sameText(listing.city, city) || !sameText(listing.state, state)) {
+    return false;
+  }
+
+  if (!amenityKeys.every((key) => listing.amenityKeys.includes(key))) {
+    return false;
+  }
+
+  // A comparison with a missing value fails in SQL too.
+  const atLeast = (value: number | null, bound: number | undefined) =>
+    !Number.isFinite(bound as number) ||
+    (value != null && value >= (bound as number));
+  const atMost = (value: number | null, bound: number | undefined) =>
+    !Number.isFinite(bound as number) ||
+    (value != null && value <= (bound as number));
+
+  if (Number.isFinite(bedrooms as number)) {
+    if (listing.bedrooms !== bedrooms) {
+      return false;
+    }
+  } else if (
+    !atLeast(listing.bedrooms, bedroomsMin) ||
+    !atMost(listing.bedrooms, bedroomsMax)
+  ) {
+    return false;
+  }
+
+  // With a stay, prices are the stay's and need the calendar.
+  if (
+    !startDate &&
+    (!atLeast(listing.basePrice, minPrice) ||
+      !atMost(listing.basePrice, maxPrice))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+type SearchSql = {
+  // FROM clause including the joins the filters need; the listing is `l`
+  from: Prisma.Sql;
+  where: Prisma.Sql;
+  stayed: boolean;
+  rank: Prisma.Sql | null;
+};
+
+// The filters as one SQL query, so matching, sorting and paging stay there.
+function buildSearchSql(
+  params: ListingSearchParams,
+  options: ListingSearchOptions
+): SearchSql {
+  const {
+    q,
+    city,
+    state,
+    bedrooms,
+    bedroomsMin,
+    bedroomsMax,
+    minPrice,
+    maxPrice,
+    minMonthlyPrice,
+    maxMonthlyPrice,
+    startDate,
+    endDate,
+    near,
+    bbox,
+    radiusKm,
+    workplaces,
+    amenityKeys,
+  } = params;
+
+  const joins: Prisma.Sql[] = [];
+  const conditions: Prisma.Sql[] = [Prisma.sql`l."status" = 'active'`];
+
+  if (bbox) {
+    conditions.push(boundingBoxSql(bbox));
+  }
+
+  if (near) {
+    conditions.push(boundingBoxSql(boundingBoxAround(near, radiusKm)));
+  }
+
+  if (workplaces.length > 0) {
+    const reachKm = maxDistanceKmForMinutes(searchMaxCommuteMinutes(params));
+    for (const workplace of workplaces) {
+      conditions.push(boundingBoxSql(boundingBoxAround(workplace, reachKm)));
+    }
+  }
+
+  if (near || workplaces.length > 0) {
+    conditions.push(Prisma.sql`l."lat" IS NOT NULL AND l."lng" IS NOT NULL`);
+  }
+
+  if (city) {
+    conditions.push(Prisma.sql`lower(l."city") = lower(${city})`);
+  }
+
+  if (amenityKeys.length > 0) {
+    conditions.push(
+      Prisma.sql`l."amenityKeys" @> ARRAY[${Prisma.join(amenityKeys)}]::text[]`
+    );
+  }
+
+  if (state) {
+    conditions.push(Prisma.sql`lower(l."state") = lower(${state})`);
+  }
+
+  if (Number.isFinite(bedrooms as number)) {
+    conditions.push(Prisma.sql`l."bedrooms" = ${bedrooms}`);
+  } else {
+    if (Number.isFinite(bedroomsMin as number)) {
+      conditions.push(Prisma.sql`l."bedrooms" >= ${bedroomsMin}`);
+    }
+    if (Number.isFinite(bedroomsMax as number)) {
+      conditions.push(Prisma.sql`l."bedrooms" <= ${bedroomsMax}`);
+    }
+  }
+
+  // With a stay range, a listing only matches if every night is bookable and
+  // price filters apply to the average (discounted) rate over the stay.
+  const stayed = startDate != null && endDate != null;
+
+  if (startDate && endDate) {
+    joins.push(stayPricingJoinSql(startDate, endDate));
+    conditions.push(
+      ...stayPriceFilterSql({
+        ...(Number.isFinite(minPrice as number)
+          ? { minNightly: minPrice as number }
+          : {}),
+        ...(Number.isFinite(maxPrice as number)
+          ? { maxNightly: maxPrice as number }
+          : {}),
+        ...(Number.isFinite(minMonthlyPrice as number)
+          ? { minMonthly: minMonthlyPrice as number }
+          : {}),
+        ...(Number.isFinite(maxMonthlyPrice as number)
+          ? { maxMonthly: maxMonthlyPrice as number }
+          : {}),
+      })
+    );
+  } else {
+    if (Number.isFinite(minPrice as number)) {
+      conditions.push(Prisma.sql`l."basePrice" >= ${minPrice}`);
+    }
+    if (Number.isFinite(maxPrice as number)) {
+      conditions.push(Prisma.sql`l."basePrice" <= ${maxPrice}`);
+    }
+  }
+
+  // `q` narrows the matches and enables sorting by relevance.
+  let rank: Prisma.Sql | null = null;
+
+  if (q) {
+    const text = listingTextMatchSql(q);
+    joins.push(text.join);
+    conditions.push(text.condition);
+    rank = text.rank;
+  }
+
+  if (options.listingIds) {
+    conditions.push(
+      options.listingIds.length > 0
+        ? Prisma.sql`l."id" IN (${Prisma.join(options.listingIds)})`
+        : Prisma.sql`false`
+    );
+  }
+
+  return {
+    from:
+      joins.length > 0
+        ? Prisma.sql`"Listing" l ${Prisma.join(joins, " ")}`
+        : Prisma.sql`"Listing" l`,
+    where: Prisma.join(conditions, " AND "),
+    stayed,
+    rank,
+  };
+}
+
+// Sort value as a float8 expression, or null for the sorts computed in memory.
+function sortValueSql(sort: SearchSort, search: SearchSql): Prisma.Sql | null {
+  switch (sort) {
+    case "price_asc":
+    case "price_desc":
+      return search.stayed
+        ? Prisma.sql`stay."averageNightlyRate"`
+        : Prisma.sql`l."basePrice"`;
+    case "monthly_price":
+      return search.stayed
+        ? Prisma.sql`stay."monthlyRate"`
+        : Prisma.sql`(l."basePrice" * ${NIGHTS_PER_MONTH}
+            * ${lengthOfStayFactorSql(NIGHTS_PER_MONTH)})::float8`;
+    case "distance":
+    case "commute":
+      return null;
+    case "bedrooms":
+      return Prisma.sql`l."bedrooms"::float8`;
+    case "recently_synced":
+      return Prisma.sql`(extract(epoch FROM l."lastSyncedAt") * 1000)::float8`;
+    case "relevance":
+      return search.rank ?? Prisma.sql`0::float8`;
+    case "newest":
+    default:
+      return Prisma.sql`(extract(epoch FROM l."createdAt") * 1000)::float8`;
+  }
+}
+
+// Same order as compareSortKeys; ids compare bytewise like JS strings do.
+function sortOrderSql(sort: SearchSort): Prisma.Sql {
+  return isDescendingSort(sort)
+    ? Prisma.sql`"value" DESC NULLS LAST, l."id" COLLATE "C"`
+    : Prisma.sql`"value" ASC NULLS LAST, l."id" COLLATE "C"`;
+}
+
+// Rows that compareSortKeys puts after `cursor`.
+function afterCursorSql(
+  sort: SearchSort,
+  value: Prisma.Sql,
+  cursor: SortKey
+): Prisma.Sql {
+  const id = Prisma.sql`l."id" COLLATE "C"`;
+
+  if (cursor.value == null) {
+    return Prisma.sql`(${value} IS NULL AND ${id} > ${cursor.id})`;
+  }
+
+  const beyond = isDescendingSort(sort)
+    ? Prisma.sql`${value} < ${cursor.value}::float8`
+    : Prisma.sql`${value} > ${cursor.value}::float8`;
+
+  return Prisma.sql`(${beyond}
+    OR (${value} = ${cursor.value}::float8 AND ${id} > ${cursor.id})
+    OR ${value} IS NULL)`;
+}
+
+type MatchRow = {
+  id: string;
+  lat: number | null;
+  lng: number | null;
+  value: number | null;
+  amenityKeys: string[];
+  stayTotal: number | null;
+  stayNightly: number | null;
+  stayMonthly: number | null;
+  relevance: number | null;
+};
+
+function matchColumnsSql(search: SearchSql, value: Prisma.Sql | null) {
+  const none = Prisma.sql`NULL::float8`;
+
+  return Prisma.sql`
+    l."id" AS "id",
+    l."lat" AS "lat",
+    l."lng" AS "lng",
+    l."amenityKeys" AS "amenityKeys",
+    ${value ?? none} AS "value",
+    ${search.stayed ? Prisma.sql`stay."total"` : none} AS "stayTotal",
+    ${search.stayed ? Prisma.sql`stay."averageNightlyRate"` : none}
+      AS "stayNightly",
+    ${search.stayed ? Prisma.sql`stay."monthlyRate"` : none} AS "stayMonthly",
+    ${search.rank ?? none} AS "relevance"
+  `;
+}
+
+type Match = MatchRow & {
+  distanceKm: number | null;
+  commutes: CommuteEstimate[];
+  worstCommuteMinutes: number;
+};
+
+/**
+ * Matches for searches near a point or workplace, whose radius and commute
+ * checks run per row after the bounding-box prefilter. Loads at most `limit`
+ * rows (and throws past that) when one is given.
+ */
+async function findGeoMatches(
+  params: ListingSearchParams,
+  search: SearchSql,
+  limit?: number
+): Promise<Match[]> {
+  const { near, radiusKm, workplaces } = params;
+  const maxCommuteMinutes = searchMaxCommuteMinutes(params);
+
+  const rows: MatchRow[] = await prisma.$queryRaw(Prisma.sql`
+    SELECT ${matchColumnsSql(search, sortValueSql(params.sort, search))}
+    FROM ${search.from}
+    WHERE ${search.where}
+    ${limit != null ? Prisma.sql`LIMIT ${limit + 1}` : Prisma.empty}
+  `);
+
+  if (limit != null && rows.length > limit) {
+    throw new ListingSearchError(
+      `More than ${limit} listings match; narrow the search with radiusKm, ` +
+        "maxCommute or other filters"
+    );
+  }
+
+  return rows
+    .map((row) => {
+      const point =
+        row.lat != null && row.lng != null
+          ? { lat: row.lat, lng: row.lng }
+          : null;
+      const commutes = point
+        ? workplaces.map((workplace) => estimateCommute(point, workplace))
+        : [];
+      return {
+        ...row,
+        distanceKm: near && point ? haversineKm(near, point) : null,
+        commutes,
+        // A listing is only as good as its longest commute.
+        worstCommuteMinutes: Math.max(
+          0,
+          ...commutes.map((commute) => commute.estimatedMinutes)
+        ),
+      };
+    })
+    .filter(
+      (match) =>
+        (match.distanceKm == null || match.distanceKm <= radiusKm) &&
+        match.worstCommuteMinutes <= maxCommuteMinutes
+    );
+}
+
+function needsGeoMatches(params: ListingSearchParams): boolean {
+  return params.near != null || params.workplaces.length > 0;
+}
+
+/**
+ * Ids of every listing matching a search, in no particular order (saved
+ * search alerts need the full set, not a page).
+ */
+export async function findMatchingListingIds(
+  params: ListingSearchParams,
+  options: ListingSearchOptions = {}
+): Promise<string[]> {
+  const search = buildSearchSql(params, options);
+
+  if (needsGeoMatches(params)) {
+    const matches = await findGeoMatches(params, search);
+    return matches.map((match) => match.id);
+  }
+
+  const rows: { id: string }[] = await prisma.$queryRaw(Prisma.sql`
+    SELECT l."id" AS "id" FROM ${search.from} WHERE ${search.where}
+  `);
+  return rows.map((row) => row.id);
+}
+
+/**
+ * One page of matches. Sorting, keyset paging, the total and the facets run
+ * in SQL; only searches near a point or workplace are filtered and sorted in
+ * memory.
+ */
+async function findMatchPage(
+  params: ListingSearchParams,
+  search: SearchSql
+): Promise<{
+  page: Match[];
+  nextCursor: string | null;
+  total: number;
+  amenityFacets: AmenityFacet[];
+}> {
+  const { sort, cursor, page, pageSize } = params;
+  const offset = cursor ? 0 : (page - 1) * pageSize;
+
+  if (needsGeoMatches(params)) {
+    const matches = await findGeoMatches(
+      params,
+      search,
+      MAX_IN_MEMORY_MATCHES
+    );
+
+    const sortValue = (match: Match): number | null =>
+      sort === "distance"
+        ? match.distanceKm
+        : sort === "commute"
+        ? match.worstCommuteMinutes
+        : match.value;
+
+    const { page: pageKeys, nextCursor } = paginateSortKeys(
+      sort,
+      matches.map((match) => ({ ...match, value: sortValue(match) })),
+      cursor,
+      pageSize,
+      offset
+    );
+
+    return {
+      page: pageKeys,
+      nextCursor,
+      total: matches.length,
+      amenityFacets: tallyAmenityFacets(
+        matches.map((match) => match.amenityKeys)
+      ),
+    };
+  }
+
+  const value = sortValueSql(sort, search) ?? Prisma.sql`NULL::float8`;
+  const afterCursor = cursor
+    ? Prisma.sql`AND ${afterCursorSql(sort, value, cursor)}`
+    : Prisma.empty;
+
+  const rows: MatchRow[] = await prisma.$queryRaw(Prisma.sql`
+    SELECT ${matchColumnsSql(search, value)}
+    FROM ${search.from}
+    WHERE ${search.where}
+      ${afterCursor}
+    ORDER BY ${sortOrderSql(sort)}
+    LIMIT ${pageSize + 1} OFFSET ${offset}
+  `);
+
+  const [counted]: { total: number }[] = await prisma.$queryRaw(Prisma.sql`
+    SELECT COUNT(*)::int AS "total" FROM ${search.from} WHERE ${search.where}
+  `);
+
+  const facetCounts: { key: string; count: number }[] =
+    await prisma.$queryRaw(Prisma.sql`
+      SELECT ak."key" AS "key", COUNT(*)::int AS "count"
+      FROM ${search.from}
+      CROSS JOIN LATERAL unnest(l."amenityKeys") AS ak("key")
+      WHERE ${search.where}
+      GROUP BY ak."key"
+    `);
+
+  const pageRows = rows.slice(0, pageSize);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    page: pageRows.map((row) => ({
+      ...row,
+      distanceKm: null,
+      commutes: [],
+      worstCommuteMinutes: 0,
+    })),
+    nextCursor:
+      last && rows.length > pageSize ? encodeSearchCursor(sort, last) : null,
+    total: counted?.total ?? 0,
+    amenityFacets: amenityFacetsFromCounts(facetCounts),
+  };
+}
+
+function toStayPricing(match: MatchRow, nights: number): StayPricing | null {
+  if (
+    match.stayTotal == null ||
+    match.stayNightly == null ||
+    match.stayMonthly == null
+  ) {
+    return null;
+  }
+
+  return {
+    nights,
+    averageNightlyRate: match.stayNightly,
+    monthlyRate: match.stayMonthly,
+    total: match.stayTotal,
+  };
+}
+
+export async function searchListings(
+  params: ListingSearchParams,
+  options: ListingSearchOptions = {}
+): Promise<ListingSearchResponse> {
+  const { q, sort, cursor, page, pageSize, startDate, endDate } = params;
+  const search = buildSearchSql(params, options);
+  const {
+    page: matches,
+    nextCursor,
+    total,
+    amenityFacets,
+  } = await findMatchPage(params, search);
+
+  const rows: { id: string }[] = await prisma.listing.findMany({
+    where: { id: { in: matches.map((match) => match.id) } },
+    select: SEARCH_RESULT_SELECT,
+  });
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  const nights =
+    startDate && endDate ? countNights(startDate, endDate) : undefined;
+
+  const snippets = q
+    ? await buildListingSnippets(q, matches.map((match) => match.id))
+    : null;
+
+  const listings: any[] = matches.flatMap((match) => {
+    const row = rowsById.get(match.id);
+    if (!row) {
+      return [];
+    }
+
+    const { photos, ...listing } = row as { id: string; photos: PhotoResult[] };
+    const { commutes } = match;
+
+    return [
+      {
+        ...listing,
+        coverPhoto: photos[0] ?? null,
+        ...(match.distanceKm != null
+          ? { distanceKm: Math.round(match.distanceKm * 100) / 100 }
+          : {}),
+        ...(commutes.length > 0
+          ? {
+              commutes,
+              commuteBand: commuteBandForMinutes(match.worstCommuteMinutes),
+            }
+          : {}),
+        ...(nights != null ? { stay: toStayPricing(match, nights) } : {}),
+        ...(q
+          ? {
+              relevance: match.relevance ?? 0,
+              snippet: snippets?.get(match.id) ?? null,
+            }
+          : {}),
+      },
+    ];
+  });
+
+  return {
+    ...(cursor ? {} : { page }),
+    pageSize,
+    sort,
+    total,
+    nextCursor,
+    ...(params.workplaces.length > 0
+      ? { maxCommuteMinutes: searchMaxCommuteMinutes(params) }
+      : {}),
+    facets: { amenities: amenityFacets },
+    results: listings,
+  };
+}
@@ -1,10 +1,33 @@
-import axios from "axios";
 import { Prisma, Listing } from "@prisma/client";
 import { prisma } from "../lib/prisma";
-import { getGuestyAccessToken } from "../lib/guestyToken";
+import { guestyGet } from "../lib/guestyClient";
+import { normalizeAmenities } from "./amenities";
+import { refreshListingSearchDocuments } from "./listingTextSearch";
 
 const DEFAULT_PAGE_SIZE = 50;
 
+// Incremental syncs only fetch listings changed since the host's cursor; a full
+// sweep still runs periodically to catch anything the cursor missed.
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Re-read a small window before the cursor so clock skew or equal timestamps
+// at the page boundary can't drop an update.
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+
+// How long a listing may be absent from full syncs before it is deactivated.
+const MISSING_LISTING_GRACE_MS = 48 * 60 * 60 * 1000;
+
+const AMENITY_REFRESH_BATCH_SIZE = 500;
+
+export type ListingSyncMode = "full" | "incremental";
+
+export type ListingSyncOptions = {
+  mode?: ListingSyncMode;
+};
+
+// Guesty applies its weekly factor from 7 nights and its monthly factor from 28 nights.
+const WEEKLY_MIN_NIGHTS = 7;
+const MONTHLY_MIN_NIGHTS = 28;
+
 type GuestyAddress = {
   full?: string;
   street?: string;
@@ -13,6 +36,7 @@ type GuestyAddress = {
   address1?: string;
   address2?: string;
   apt?: string;
+  neighborhood?: string;
   city?: string;
   state?: string;
   province?: string;
@@ -28,6 +52,33 @@ type GuestyLocation = {
   longitude?: number;
 };
 
+type GuestyLengthOfStayTier = {
+  minNights?: number;
+  nights?: number;
+  priceFactor?: number;
+  factor?: number;
+};
+
+type GuestyPicture = {
+  _id?: string;
+  id?: string;
+  original?: string;
+  large?: string;
+  regular?: string;
+  url?: string;
+  thumbnail?: string;
+  caption?: string;
+  width?: number;
+  height?: number;
+};
+
+type GuestyPrices = {
+  basePrice?: number;
+  weeklyPriceFactor?: number;
+  monthlyPriceFactor?: number;
+  lengthOfStayDiscounts?: GuestyLengthOfStayTier[];
+};
+
 type GuestyListing = {
   _id?: string;
   id?: string;
@@ -45,11 +96,19 @@ type GuestyListing = {
   location?: GuestyLocation;
   geo?: GuestyLocation;
   amenities?: string[];
-  pictures?: unknown;
-  images?: unknown;
+  // The cover picture; usually also present in `pictures`
+  picture?: GuestyPicture;
+  pictures?: (GuestyPicture | string)[];
+  images?: (GuestyPicture | string)[];
   basePrice?: number;
   defaultDailyPrice?: number;
   dailyRate?: number;
+  prices?: GuestyPrices;
+  lengthOfStayDiscounts?: GuestyLengthOfStayTier[];
+  lastUpdatedAt?: string;
+  updatedAt?: string;
+  active?: boolean;
+  listed?: boolean;
 };
 
 type GuestyListResponse = {
@@ -60,147 +119,384 @@ type GuestyListResponse = {
   limit?: number;
 };
 
-function getGuestyBaseUrl(): string {
+function extractGuestyId(listing: GuestyListing): string | null {
+  return listing._id ?? listing.id ?? null;
+}
+
+function extractUpdatedAt(listing: GuestyListing): Date | null {
+  const raw = listing.lastUpdatedAt ?? listing.updatedAt;
+  if (!raw) {
+    return null;
+  }
+  const parsed = new Date(raw);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+async function resolveSyncMode(
+  hostId: string,
+  requested?: ListingSyncMode
+): Promise<{ mode: ListingSyncMode; cursor: Date | null }> {
+  const host = await prisma.host.findUnique({
+    where: { id: hostId },
+    select: { listingSyncCursor: true, listingFullSyncAt: true },
+  });
+
+  const cursor: Date | null = host?.listingSyncCursor ?? null;
+  const lastFull: Date | null = host?.listingFullSyncAt ?? null;
+
+  const fullDue =
+    !cursor ||
+    !lastFull ||
+    Date.now() - lastFull.getTime() >= FULL_SYNC_INTERVAL_MS;
+
+  if (requested === "full" || (requested !== "incremental" && fullDue)) {
+    return { mode: "full", cursor };
+  }
+
+  // An incremental sync without a cursor has nothing to be incremental from.
+  return cursor ? { mode: "incremental", cursor } : { mode: "full", cursor };
+}
+
+type LengthOfStayDiscountData = {
+  minNights: number;
+  priceFactor: number;
+};
+
+function isValidPriceFactor(value: unknown): value is number {
+  return typeof value === "number" && value > 0 && value < 1;
+}
+
+function extractLengthOfStayDiscounts(
+  guesty: GuestyListing
+): LengthOfStayDiscountData[] {
+  const byMinNights = new Map<number, number>();
+
+  const weekly = guesty.prices?.weeklyPriceFactor;
+  if (isValidPriceFactor(weekly)) {
+    byMinNights.set(WEEKLY_MIN_NIGHTS, weekly);
+  }
+
+  const monthly = guesty.prices?.monthlyPriceFactor;
+  if (isValidPriceFactor(monthly)) {
+    byMinNights.set(MONTHLY_MIN_NIGHTS, monthly);
+  }
+
+  // Longer tiers (e.g. 90 nights) only come through the explicit tier list.
+  const tiers =
+    guesty.prices?.lengthOfStayDiscounts ?? guesty.lengthOfStayDiscounts ?? [];
+
+  for (const tier of tiers) {
+    const minNights = tier.minNights ?? tier.nights;
+    const priceFactor = tier.priceFactor ?? tier.factor;
+
+    if (
+      typeof minNights === "number" &&
+      Number.isInteger(minNights) &&
+      minNights > 0 &&
+      isValidPriceFactor(priceFactor)
+    ) {
+      byMinNights.set(minNights, priceFactor);
+    }
+  }
+
+  return Array.from(byMinNights, ([minNights, priceFactor]) => ({
+    minNights,
+    priceFactor,
+  })).sort((a, b) => a.minNights - b.minNights);
+}
+
+async function replaceLengthOfStayDiscounts(
+  listingId: string,
+  discounts: LengthOfStayDiscountData[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.lengthOfStayDiscount.deleteMany({ where: { listingId } }),
+    prisma.lengthOfStayDiscount.createMany({
+      data: discounts.map((discount) => ({ ...discount, listingId })),
+    }),
+  ]);
+}
+
+type ListingPhotoData = {
+  guestyId: string | null;
+  url: string;
+  thumbnailUrl: string | null;
+  caption: string | null;
+  sortOrder: number;
+  width: number | null;
+  height: number | null;
+  isCover: boolean;
+};
+
+function pictureUrl(picture: GuestyPicture): string | null {
   return (
-    process.env.GUESTY_API_BASE_URL ?? "https://api.guesty.com/api/v2"
+    picture.original ??
+    picture.large ??
+    picture.regular ??
+    picture.url ??
+    picture.thumbnail ??
+    null
   );
 }
 
-function extractGuestyId(listing: GuestyListing): string | null {
-  return listing._id ?? listing.id ?? null;
+function positiveIntOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isInteger(value) && value > 0
+    ? value
+    : null;
 }
 
-function mapGuestyListingToPrismaData(guesty: GuestyListing, hostId: number) {
+// Keeps Guesty's order; the listing's `picture` is the cover, else the first photo.
+function extractListingPhotos(guesty: GuestyListing): ListingPhotoData[] {
+  const rawPictures = guesty.pictures ?? guesty.images ?? [];
+  const photos: ListingPhotoData[] = [];
+  const seenUrls = new Set<string>();
+
+  for (const raw of rawPictures) {
+    const picture: GuestyPicture =
+      typeof raw === "string" ? { original: raw } : raw ?? {};
+    const url = pictureUrl(picture);
+
+    if (!url || seenUrls.has(url)) {
+      continue;
+    }
+    seenUrls.add(url);
+
+    photos.push({
+      guestyId: picture._id ?? picture.id ?? null,
+      url,
+      thumbnailUrl: picture.thumbnail ?? picture.regular ?? null,
+      caption: picture.caption?.trim() || null,
+      sortOrder: photos.length,
+      width: positiveIntOrNull(picture.width),
+      height: positiveIntOrNull(picture.height),
+      isCover: false,
+    });
+  }
+
+  const coverUrl = guesty.picture ? pictureUrl(guesty.picture) : null;
+  const cover =
+    photos.find((photo) => coverUrl != null && photo.url === coverUrl) ??
+    photos[0];
+
+  if (cover) {
+    cover.isCover = true;
+  }
+
+  return photos;
+}
+
+async function replaceListingPhotos(
+  listingId: string,
+  photos: ListingPhotoData[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.listingPhoto.deleteMany({ where: { listingId } }),
+    prisma.listingPhoto.createMany({
+      data: photos.map((photo) => ({ ...photo, listingId })),
+    }),
+  ]);
+}
+
+function mapGuestyListingToPrismaData(guesty: GuestyListing, hostId: string) {
   const address = guesty.address ?? {};
   const loc = guesty.location ?? guesty.geo ?? {};
 
   const title =
     guesty.title ?? guesty.name ?? address.full ?? "Untitled listing";
 
-  const photos = guesty.pictures ?? guesty.images ?? [];
   const amenities = guesty.amenities ?? [];
+  const amenityKeys = normalizeAmenities(amenities);
 
-  const basePriceNumber =
+  const basePrice =
+    guesty.prices?.basePrice ??
     guesty.basePrice ??
     guesty.defaultDailyPrice ??
     guesty.dailyRate ??
-    0;
-
-  const basePriceDecimal = new Prisma.Decimal(basePriceNumber);
-
-  const create = {
-    guestyId: extractGuestyId(guesty) ?? "",
-    host: {
-      connect: { id: hostId },
-    },
+    null;
+
+  // Guesty keeps deactivated and unlisted listings in the API; we hide them.
+  const status =
+    guesty.active === false || guesty.listed === false ? "inactive" : "active";
+
+  const street =
+    [
+      address.street ?? address.line1 ?? address.address1,
+      address.apt ?? address.line2 ?? address.address2,
+    ]
+      .filter(Boolean)
+      .join(", ") || null;
+
+  // Written on create and update alike; only columns Listing has.
+  const fields = {
     title,
     description: guesty.description ?? null,
-    propertyType:
-      guesty.propertyType ?? guesty.propertyTypeCategory ?? null,
     bedrooms: guesty.bedrooms ?? null,
     bathrooms: guesty.bathrooms ?? null,
-    beds: guesty.beds ?? null,
     maxGuests: guesty.maxGuests ?? guesty.accommodates ?? null,
-    addressLine1:
-      address.street ??
-      address.line1 ??
-      address.address1 ??
-      null,
-    addressLine2:
-      address.apt ??
-      address.line2 ??
-      address.address2 ??
-      null,
+    street,
+    neighborhood: address.neighborhood ?? null,
     city: address.city ?? null,
     state: address.state ?? address.province ?? null,
-    postalCode: address.zip ?? address.postalCode ?? null,
-    country: address.country ?? null,
-    latitude:
+    zip: address.zip ?? address.postalCode ?? null,
+    lat:
       typeof loc.lat === "number"
         ? loc.lat
         : typeof loc.latitude === "number"
         ? loc.latitude
         : null,
-    longitude:
+    lng:
       typeof loc.lng === "number"
         ? loc.lng
         : typeof loc.longitude === "number"
         ? loc.longitude
         : null,
-    photos,
     amenities,
-    basePrice: basePriceDecimal,
-    calendarDays: {
-      create: [],
+    amenityKeys,
+    basePrice: typeof basePrice === "number" ? basePrice : null,
+    status,
+    lastSyncedAt: new Date(),
+  };
+
+  // Typed so the payload is checked against the schema (prisma is `any`).
+  const create: Prisma.ListingCreateInput = {
+    guestyId: extractGuestyId(guesty) ?? "",
+    host: {
+      connect: { id: hostId },
     },
+    ...fields,
   };
 
-  const update = {
-    title,
-    description: guesty.description ?? null,
-    propertyType:
-      guesty.propertyType ?? guesty.propertyTypeCategory ?? null,
-    bedrooms: guesty.bedrooms ?? null,
-    bathrooms: guesty.bathrooms ?? null,
-    beds: guesty.beds ?? null,
-    maxGuests: guesty.maxGuests ?? guesty.accommodates ?? null,
-    addressLine1:
-      address.street ??
-      address.line1 ??
-      address.address1 ??
-      null,
-    addressLine2:
-      address.apt ??
-      address.line2 ??
-      address.address2 ??
-      null,
-    city: address.city ?? null,
-    state: address.state ?? address.province ?? null,
-    postalCode: address.zip ?? address.postalCode ?? null,
-    country: address.country ?? null,
-    latitude:
-      typeof loc.lat === "number"
-        ? loc.lat
-        : typeof loc.latitude === "number"
-        ? loc.latitude
-        : null,
-    longitude:
-      typeof loc.lng === "number"
-        ? loc.lng
-        : typeof loc.longitude === "number"
-        ? loc.longitude
-        : null,
-    photos,
-    amenities,
-    basePrice: basePriceDecimal,
+  const update: Prisma.ListingUpdateInput = {
+    ...fields,
+    missingSince: null,
   };
 
-  return { create, update };
+  const losDiscounts = extractLengthOfStayDiscounts(guesty);
+  const photos = extractListingPhotos(guesty);
+
+  return { create, update, losDiscounts, photos };
+}
+
+/**
+ * After a full sweep, flags listings Guesty no longer returned and
+ * deactivates those that have been missing for longer than the grace period.
+ */
+async function reconcileMissingListings(
+  hostId: string,
+  seenGuestyIds: Set<string>
+): Promise<void> {
+  // An empty sweep is more likely an API hiccup than a host removing everything.
+  if (seenGuestyIds.size === 0) {
+    return;
+  }
+
+  const now = new Date();
+  const graceCutoff = new Date(now.getTime() - MISSING_LISTING_GRACE_MS);
+  const missing = {
+    hostId,
+    guestyId: { notIn: Array.from(seenGuestyIds) },
+  };
+
+  await prisma.listing.updateMany({
+    where: { ...missing, missingSince: null },
+    data: { missingSince: now },
+  });
+
+  await prisma.listing.updateMany({
+    where: {
+      ...missing,
+      status: "active",
+      missingSince: { lte: graceCutoff },
+    },
+    data: { status: "inactive" },
+  });
+}
+
+/**
+ * Recomputes amenityKeys from each listing's stored raw amenities and saves
+ * the ones that differ: listings stored before the taxonomy existed or last
+ * changed, which a sync hasn't rewritten since. Returns how many changed.
+ */
+export async function refreshListingAmenityKeys(): Promise<number> {
+  let updated = 0;
+  let afterId: string | null = null;
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const listings: Pick<Listing, "id" | "amenities" | "amenityKeys">[] =
+      await prisma.listing.findMany({
+        ...(afterId ? { where: { id: { gt: afterId } } } : {}),
+        orderBy: { id: "asc" },
+        take: AMENITY_REFRESH_BATCH_SIZE,
+        select: { id: true, amenities: true, amenityKeys: true },
+      });
+
+    for (const listing of listings) {
+      const amenityKeys = normalizeAmenities(listing.amenities);
+      if (amenityKeys.join(",") !== listing.amenityKeys.join(",")) {
+        await prisma.listing.update({
+          where: { id: listing.id },
+          data: { amenityKeys },
+        });
+        updated += 1;
+      }
+    }
+
+    const last = listings[listings.length - 1];
+    if (!last || listings.length < AMENITY_REFRESH_BATCH_SIZE) {
+      return updated;
+    }
+    afterId = last.id;
+  }
+}
+
+export async function deactivateListingByGuestyId(
+  guestyListingId: string
+): Promise<number> {
+  const result = await prisma.listing.updateMany({
+    where: { guestyId: guestyListingId },
+    data: { status: "inactive" },
+  });
+  return result.count;
 }
 
 export async function syncAllListingsForHost(
-  hostId: number
+  hostId: string,
+  options: ListingSyncOptions = {}
 ): Promise<Listing[]> {
-  const accessToken = await getGuestyAccessToken(hostId);
-  const baseUrl = getGuestyBaseUrl();
+  const { mode, cursor } = await resolveSyncMode(hostId, options.mode);
+
+  const since =
+    mode === "incremental" && cursor
+      ? new Date(cursor.getTime() - CURSOR_OVERLAP_MS)
+      : null;
 
   let page = 1;
   const limit = DEFAULT_PAGE_SIZE;
   const syncedListings: Listing[] = [];
+  const seenGuestyIds = new Set<string>();
+  let latestUpdatedAt = cursor;
 
   // Simple page-based pagination; this can be adapted if you use cursor-based pagination instead.
   // Continue until we reach the reported number of pages, or we get fewer than `limit` results.
   // eslint-disable-next-line no-constant-condition
   while (true) {
-    const { data } = await axios.get<GuestyListResponse>(
-      `${baseUrl}/listings`,
-      {
-        params: { page, limit },
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      }
-    );
+    const data = await guestyGet<GuestyListResponse>(hostId, "/listings", {
+      page,
+      limit,
+      ...(since
+        ? {
+            sort: "lastUpdatedAt",
+            filters: JSON.stringify([
+              {
+                field: "lastUpdatedAt",
+                operator: "$gte",
+                value: since.toISOString(),
+              },
+            ]),
+          }
+        : {}),
+    });
 
     const rawListings = data.results ?? data.data ?? [];
 
@@ -214,7 +510,21 @@ export async function syncAllListingsForHost(
         continue;
       }
 
-      const { create, update } = mapGuestyListingToPrismaData(raw, hostId);
+      seenGuestyIds.add(guestyId);
+
+      const updatedAt = extractUpdatedAt(raw);
+
+      if (updatedAt && (!latestUpdatedAt || updatedAt > latestUpdatedAt)) {
+        latestUpdatedAt = updatedAt;
+      }
+
+      // Guard in case the API ignores the filter: skip rows we already have.
+      if (since && updatedAt && updatedAt < since) {
+        continue;
+      }
+
+      const { create, update, losDiscounts, photos } =
+        mapGuestyListingToPrismaData(raw, hostId);
 
       const listing = await prisma.listing.upsert({
         where: { guestyId },
@@ -222,6 +532,10 @@ export async function syncAllListingsForHost(
         update,
       });
 
+      await replaceLengthOfStayDiscounts(listing.id, losDiscounts);
+      await replaceListingPhotos(listing.id, photos);
+      await refreshListingSearchDocuments([listing.id]);
+
       syncedListings.push(listing);
     }
 
@@ -236,28 +550,35 @@ export async function syncAllListingsForHost(
     page += 1;
   }
 
+  if (mode === "full") {
+    await reconcileMissingListings(hostId, seenGuestyIds);
+  }
+
+  // Only advance the cursor once the whole sweep has succeeded.
+  await prisma.host.update({
+    where: { id: hostId },
+    data: {
+      listingSyncCursor: latestUpdatedAt,
+      ...(mode === "full" ? { listingFullSyncAt: new Date() } : {}),
+    },
+  });
+
   return syncedListings;
 }
 
 export async function syncListingByGuestyId(
-  hostId: number,
+  hostId: string,
   guestyListingId: string
 ): Promise<Listing> {
-  const accessToken = await getGuestyAccessToken(hostId);
-  const baseUrl = getGuestyBaseUrl();
-
-  const { data } = await axios.get<GuestyListing>(
-    `${baseUrl}/listings/${encodeURIComponent(guestyListingId)}`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    }
+  const data = await guestyGet<GuestyListing>(
+    hostId,
+    `/listings/${encodeURIComponent(guestyListingId)}`
   );
 
   const guestyId = extractGuestyId(data) ?? guestyListingId;
 
-  const { create, update } = mapGuestyListingToPrismaData(data, hostId);
+  const { create, update, losDiscounts, photos } =
+    mapGuestyListingToPrismaData(data, hostId);
   create.guestyId = guestyId;
 
   const listing = await prisma.listing.upsert({
@@ -266,6 +587,10 @@ export async function syncListingByGuestyId(
     update,
   });
 
+  await replaceLengthOfStayDiscounts(listing.id, losDiscounts);
+  await replaceListingPhotos(listing.id, photos);
+  await refreshListingSearchDocuments([listing.id]);
+
   return listing;
 }
 
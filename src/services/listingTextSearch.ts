@@ -0,0 +1,131 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+
+export const MAX_QUERY_LENGTH = 200;
+
+// Snippet highlight markers; control characters can't occur in escaped text.
+const MARK_START = "\u0001";
+const MARK_STOP = "\u0002";
+
+// Title outranks location and amenities, which outrank the description.
+// Stored in "Listing"."searchDocument" (GIN indexed) by
+// refreshListingSearchDocuments, so searches never rebuild it.
+const LISTING_DOCUMENT = Prisma.sql`
+  setweight(to_tsvector('english', coalesce(l."title", '')), 'A') ||
+  setweight(to_tsvector('english',
+    coalesce(l."neighborhood", '') || ' ' ||
+    coalesce(l."city", '') || ' ' ||
+    coalesce(l."state", '')), 'B') ||
+  setweight(to_tsvector('english',
+    array_to_string(l."amenities", ' ') || ' ' ||
+    replace(array_to_string(l."amenityKeys", ' '), '_', ' ')), 'B') ||
+  setweight(to_tsvector('english', coalesce(l."description", '')), 'C')
+`;
+
+/**
+ * Any-term query: "furnished near downtown with parking" matches listings
+ * with some of the words, and ranking rewards the ones with most of them.
+ */
+function anyTermQuery(q: string): Prisma.Sql {
+  return Prisma.sql`nullif(
+    replace(plainto_tsquery('english', ${q})::text, '&', '|'),
+    ''
+  )::tsquery`;
+}
+
+/**
+ * Recomputes the stored search document for the given listings, or for every
+ * listing that doesn't have one yet when called without ids.
+ */
+export async function refreshListingSearchDocuments(
+  listingIds?: string[]
+): Promise<number> {
+  if (listingIds && listingIds.length === 0) {
+    return 0;
+  }
+
+  return prisma.$executeRaw(Prisma.sql`
+    UPDATE "Listing" l
+    SET "searchDocument" = ${LISTING_DOCUMENT}
+    WHERE ${
+      listingIds
+        ? Prisma.sql`l."id" IN (${Prisma.join(listingIds)})`
+        : Prisma.sql`l."searchDocument" IS NULL`
+    }
+  `);
+}
+
+/**
+ * Pieces for matching `q` inside a larger listing query (listing aliased as
+ * `l`): a join providing the query, the match condition, and the rank. A `q`
+ * without searchable words (only stopwords, say) matches nothing.
+ */
+export function listingTextMatchSql(q: string): {
+  join: Prisma.Sql;
+  condition: Prisma.Sql;
+  rank: Prisma.Sql;
+} {
+  return {
+    join: Prisma.sql`CROSS JOIN (SELECT ${anyTermQuery(q)} AS "query") tq`,
+    condition: Prisma.sql`(tq."query" IS NOT NULL
+      AND l."searchDocument" @@ tq."query")`,
+    rank: Prisma.sql`ts_rank_cd(l."searchDocument", tq."query")::float8`,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Description excerpts with matched words wrapped in <mark>, for result
+ * cards. The host's text is HTML-escaped; only the <mark> tags are markup.
+ */
+export async function buildListingSnippets(
+  q: string,
+  listingIds: string[]
+): Promise<Map<string, string>> {
+  if (listingIds.length === 0) {
+    return new Map();
+  }
+
+  const rows: { id: string; snippet: string | null }[] =
+    await prisma.$queryRaw(Prisma.sql`
+      SELECT l."id" AS "id",
+             ts_headline(
+               'english',
+               translate(
+                 coalesce(nullif(l."description", ''), l."title"),
+                 ${MARK_START + MARK_STOP},
+                 ''
+               ),
+               s."query",
+               ${`StartSel="${MARK_START}", StopSel="${MARK_STOP}", ` +
+               "MaxFragments=2, MaxWords=25, MinWords=8"}
+             ) AS "snippet"
+      FROM "Listing" l
+      CROSS JOIN (SELECT ${anyTermQuery(q)} AS "query") s
+      WHERE l."id" IN (${Prisma.join(listingIds)})
+        AND s."query" IS NOT NULL
+    `);
+
+  const snippets = new Map<string, string>();
+  for (const row of rows) {
+    if (row.snippet) {
+      snippets.set(
+        row.id,
+        escapeHtml(row.snippet)
+          .split(MARK_START)
+          .join("<mark>")
+          .split(MARK_STOP)
+          .join("</mark>")
+      );
+    }
+  }
+  return snippets;
+}
@@ -0,0 +1,133 @@
+import { Reservation } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+
+type GuestyReservationGuest = {
+  fullName?: string;
+  firstName?: string;
+  lastName?: string;
+};
+
+type GuestyReservationMoney = {
+  hostPayout?: number;
+  totalPaid?: number;
+  currency?: string;
+};
+
+export type GuestyReservation = {
+  _id?: string;
+  id?: string;
+  listingId?: string;
+  listing?: { _id?: string; id?: string };
+  checkIn?: string;
+  checkOut?: string;
+  checkInDateLocalized?: string;
+  checkOutDateLocalized?: string;
+  status?: string;
+  source?: string;
+  integration?: { platform?: string };
+  guest?: GuestyReservationGuest;
+  guestName?: string;
+  money?: GuestyReservationMoney;
+  lastUpdatedAt?: string;
+  updatedAt?: string;
+};
+
+export type ReservationContext = {
+  eventType: string;
+  hostId: string | null;
+  listingId: string | null;
+};
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function extractGuestName(reservation: GuestyReservation): string | null {
+  const guest = reservation.guest;
+  if (guest?.fullName) {
+    return guest.fullName;
+  }
+
+  const fromParts = [guest?.firstName, guest?.lastName]
+    .filter(Boolean)
+    .join(" ");
+
+  return fromParts || reservation.guestName || null;
+}
+
+function mapGuestyReservation(
+  reservation: GuestyReservation,
+  context: ReservationContext
+) {
+  const status =
+    context.eventType === "reservation.cancelled"
+      ? "canceled"
+      : reservation.status ?? "unknown";
+
+  return {
+    hostId: context.hostId,
+    listingId: context.listingId,
+    guestyListingId:
+      reservation.listingId ??
+      reservation.listing?._id ??
+      reservation.listing?.id ??
+      null,
+    guestName: extractGuestName(reservation),
+    checkIn: parseDate(reservation.checkIn ?? reservation.checkInDateLocalized),
+    checkOut: parseDate(
+      reservation.checkOut ?? reservation.checkOutDateLocalized
+    ),
+    status,
+    source: reservation.source ?? reservation.integration?.platform ?? null,
+    totalPayout:
+      reservation.money?.hostPayout ?? reservation.money?.totalPaid ?? null,
+    currency: reservation.money?.currency ?? null,
+    guestyUpdatedAt: parseDate(
+      reservation.lastUpdatedAt ?? reservation.updatedAt
+    ),
+  };
+}
+
+/**
+ * Creates or updates the local copy of a Guesty reservation. Events can arrive
+ * out of order or more than once, so an event older than what is stored is
+ * ignored and the stored row is returned unchanged.
+ */
+export async function upsertReservationFromGuesty(
+  reservation: GuestyReservation,
+  context: ReservationContext
+): Promise<Reservation | null> {
+  const guestyId = reservation._id ?? reservation.id;
+  if (!guestyId) {
+    return null;
+  }
+
+  const data = mapGuestyReservation(reservation, context);
+
+  const existing: Reservation | null = await prisma.reservation.findUnique({
+    where: { guestyId },
+  });
+
+  if (
+    existing?.guestyUpdatedAt &&
+    data.guestyUpdatedAt &&
+    data.guestyUpdatedAt.getTime() < existing.guestyUpdatedAt.getTime()
+  ) {
+    return existing;
+  }
+
+  return prisma.reservation.upsert({
+    where: { guestyId },
+    create: { guestyId, ...data },
+    update: {
+      ...data,
+      // Keep what we already resolved if this event lacks it.
+      hostId: data.hostId ?? existing?.hostId ?? null,
+      listingId: data.listingId ?? existing?.listingId ?? null,
+    },
+  });
+}
@@ -0,0 +1,427 @@
+import { Prisma, SavedSearch, SavedSearchAlert } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { getNotifier } from "../lib/notifier";
+import {
+  LISTING_PREFILTER_SELECT,
+  ListingPrefilterFields,
+  ListingSearchError,
+  ListingSearchQuery,
+  findMatchingListingIds,
+  mightMatchListing,
+  parseListingSearch,
+} from "./listingSearch";
+
+export const MAX_SAVED_SEARCHES_PER_GUEST = 25;
+
+// A listing that matches again within this long of its last alert (after
+// dropping out in between) doesn't alert again.
+export const SAVED_SEARCH_REALERT_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Paging state belongs to one browsing session, not to the saved search.
+const UNSAVED_QUERY_KEYS = new Set(["cursor", "page", "pageSize", "sort"]);
+
+export class SavedSearchError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "SavedSearchError";
+  }
+}
+
+export type SavedSearchInput = {
+  name?: string | null;
+  // Query parameters as an object, or a query string ("city=Austin&...")
+  query: unknown;
+  alertsEnabled?: boolean;
+};
+
+export type SavedSearchEvaluation = {
+  savedSearchId: string;
+  alerted: number;
+};
+
+/**
+ * Keeps only string (or repeated string) parameters and checks them with the
+ * same parser `GET /listings` uses, so a saved search can always be re-run.
+ */
+export function normalizeSavedSearchQuery(input: unknown): ListingSearchQuery {
+  let entries: [string, unknown][];
+
+  if (typeof input === "string") {
+    const params = new URLSearchParams(input.replace(/^\?/, ""));
+    entries = Array.from(new Set(params.keys()), (key) => {
+      const values = params.getAll(key);
+      return [key, values.length === 1 ? values[0] : values];
+    });
+  } else if (input && typeof input === "object" && !Array.isArray(input)) {
+    entries = Object.entries(input);
+  } else {
+    throw new SavedSearchError(
+      "query must be an object or a query string",
+      400
+    );
+  }
+
+  const query: ListingSearchQuery = {};
+  for (const [key, value] of entries) {
+    if (UNSAVED_QUERY_KEYS.has(key)) {
+      continue;
+    }
+    if (typeof value === "string") {
+      query[key] = value;
+    } else if (
+      Array.isArray(value) &&
+      value.every((entry) => typeof entry === "string")
+    ) {
+      query[key] = value;
+    }
+  }
+
+  try {
+    parseListingSearch(query);
+  } catch (err) {
+    if (err instanceof ListingSearchError) {
+      throw new SavedSearchError(err.message, 400);
+    }
+    throw err;
+  }
+
+  return query;
+}
+
+// A search whose stay has already started can't produce useful alerts.
+function isExpired(query: ListingSearchQuery, now: Date): boolean {
+  const params = parseListingSearch(query);
+  return (
+    params.startDate != null && params.startDate.getTime() < now.getTime()
+  );
+}
+
+async function matchSavedSearch(savedSearch: SavedSearch): Promise<string[]> {
+  const params = parseListingSearch(savedSearch.query as ListingSearchQuery);
+  return findMatchingListingIds(params);
+}
+
+/**
+ * Saves a search and records its current matches as a baseline, so alerts
+ * only fire for listings that start matching later.
+ */
+export async function createSavedSearch(
+  guestId: string,
+  input: SavedSearchInput
+): Promise<SavedSearch> {
+  const query = normalizeSavedSearchQuery(input.query);
+
+  const existing = await prisma.savedSearch.count({ where: { guestId } });
+  if (existing >= MAX_SAVED_SEARCHES_PER_GUEST) {
+    throw new SavedSearchError(
+      `A guest can save at most ${MAX_SAVED_SEARCHES_PER_GUEST} searches`,
+      409
+    );
+  }
+
+  const savedSearch: SavedSearch = await prisma.savedSearch.create({
+    data: {
+      guestId,
+      name: input.name?.trim() || null,
+      query,
+      alertsEnabled: input.alertsEnabled ?? true,
+      lastEvaluatedAt: new Date(),
+    },
+  });
+
+  const baseline = await matchSavedSearch(savedSearch);
+  if (baseline.length > 0) {
+    await prisma.savedSearchAlert.createMany({
+      data: baseline.map((listingId) => ({
+        savedSearchId: savedSearch.id,
+        listingId,
+        status: "baseline",
+      })),
+    });
+  }
+
+  return savedSearch;
+}
+
+export async function listSavedSearches(
+  guestId: string
+): Promise<SavedSearch[]> {
+  return prisma.savedSearch.findMany({
+    where: { guestId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+async function getOwnedSavedSearch(
+  guestId: string,
+  id: string
+): Promise<SavedSearch> {
+  const savedSearch = await prisma.savedSearch.findUnique({ where: { id } });
+  if (!savedSearch || savedSearch.guestId !== guestId) {
+    throw new SavedSearchError("Saved search not found", 404);
+  }
+  return savedSearch;
+}
+
+export async function updateSavedSearch(
+  guestId: string,
+  id: string,
+  input: { name?: string | null; alertsEnabled?: boolean }
+): Promise<SavedSearch> {
+  await getOwnedSavedSearch(guestId, id);
+
+  return prisma.savedSearch.update({
+    where: { id },
+    data: {
+      ...(input.name !== undefined
+        ? { name: input.name?.trim() || null }
+        : {}),
+      ...(input.alertsEnabled !== undefined
+        ? { alertsEnabled: input.alertsEnabled }
+        : {}),
+    },
+  });
+}
+
+export async function deleteSavedSearch(
+  guestId: string,
+  id: string
+): Promise<void> {
+  await getOwnedSavedSearch(guestId, id);
+  await prisma.savedSearch.delete({ where: { id } });
+}
+
+export async function listSavedSearchAlerts(
+  guestId: string,
+  id: string
+): Promise<SavedSearchAlert[]> {
+  await getOwnedSavedSearch(guestId, id);
+
+  return prisma.savedSearchAlert.findMany({
+    where: { savedSearchId: id, status: { not: "baseline" } },
+    orderBy: { createdAt: "desc" },
+    include: { listing: { select: { id: true, title: true, city: true } } },
+    take: 100,
+  });
+}
+
+async function deliverAlert(
+  savedSearch: SavedSearch & {
+    guest: { id: string; email: string; name: string | null };
+  },
+  alert: SavedSearchAlert,
+  listing: { id: string; title: string; city: string | null }
+): Promise<void> {
+  const notifier = getNotifier();
+  const searchName = savedSearch.name ?? "your saved search";
+  const place = listing.city ? ` in ${listing.city}` : "";
+
+  try {
+    await notifier.send({
+      type: "saved_search_match",
+      to: {
+        guestId: savedSearch.guest.id,
+        email: savedSearch.guest.email,
+        name: savedSearch.guest.name,
+      },
+      subject: `New match for ${searchName}`,
+      text: `${listing.title}${place} now matches ${searchName}.`,
+      data: {
+        savedSearchId: savedSearch.id,
+        alertId: alert.id,
+        listingId: listing.id,
+      },
+    });
+
+    await prisma.savedSearchAlert.update({
+      where: { id: alert.id },
+      data: {
+        status: "sent",
+        channel: notifier.channel,
+        deliveredAt: new Date(),
+      },
+    });
+  } catch (err) {
+    await prisma.savedSearchAlert.update({
+      where: { id: alert.id },
+      data: {
+        status: "failed",
+        channel: notifier.channel,
+        error: err instanceof Error ? err.message : String(err),
+      },
+    });
+  }
+}
+
+/**
+ * Records which of the evaluated `listingIds` match the search and returns
+ * the alerts to deliver. A listing that stops matching keeps its rows, with
+ * `unmatchedAt` set. Matching again creates a new alert only if the last one
+ * is older than SAVED_SEARCH_REALERT_COOLDOWN_MS; otherwise the last row is
+ * reopened quietly, so a listing flapping between syncs doesn't notify the
+ * guest every time.
+ */
+async function recordMatches(
+  savedSearchId: string,
+  listingIds: string[],
+  matches: string[],
+  now: Date
+): Promise<SavedSearchAlert[]> {
+  const matched = new Set(matches);
+
+  return prisma.$transaction(async (tx: typeof prisma) => {
+    // Workers evaluating the same search take turns.
+    await tx.$queryRaw(Prisma.sql`
+      SELECT 1 FROM "SavedSearch" WHERE "id" = ${savedSearchId} FOR UPDATE
+    `);
+
+    await tx.savedSearchAlert.updateMany({
+      where: {
+        savedSearchId,
+        listingId: { in: listingIds.filter((id) => !matched.has(id)) },
+        unmatchedAt: null,
+      },
+      data: { unmatchedAt: now },
+    });
+
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const rows: SavedSearchAlert[] = await tx.savedSearchAlert.findMany({
+      where: { savedSearchId, listingId: { in: matches } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const latest = new Map<string, SavedSearchAlert>();
+    for (const row of rows) {
+      if (!latest.has(row.listingId)) {
+        latest.set(row.listingId, row);
+      }
+    }
+
+    const reopened: string[] = [];
+    const created: SavedSearchAlert[] = [];
+
+    for (const listingId of matches) {
+      const last = latest.get(listingId);
+
+      // Still the current match
+      if (last && last.unmatchedAt == null) {
+        continue;
+      }
+
+      if (
+        last &&
+        now.getTime() - last.createdAt.getTime() <
+          SAVED_SEARCH_REALERT_COOLDOWN_MS
+      ) {
+        reopened.push(last.id);
+        continue;
+      }
+
+      created.push(
+        await tx.savedSearchAlert.create({ data: { savedSearchId, listingId } })
+      );
+    }
+
+    if (reopened.length > 0) {
+      await tx.savedSearchAlert.updateMany({
+        where: { id: { in: reopened } },
+        data: { unmatchedAt: null },
+      });
+    }
+
+    return created;
+  });
+}
+
+/**
+ * Runs every alerting saved search against listings a sync just touched and
+ * notifies the owner of each listing that newly matches (see recordMatches).
+ * Searches are first checked in memory against the batch's listings, so only
+ * those that might match one of them run a query, restricted to those.
+ */
+export async function evaluateSavedSearches(
+  listingIds: string[]
+): Promise<SavedSearchEvaluation[]> {
+  if (listingIds.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  const savedSearches = await prisma.savedSearch.findMany({
+    where: { alertsEnabled: true },
+    include: { guest: { select: { id: true, email: true, name: true } } },
+  });
+
+  const listings: ListingPrefilterFields[] = await prisma.listing.findMany({
+    where: { id: { in: listingIds } },
+    select: LISTING_PREFILTER_SELECT,
+  });
+
+  const results: SavedSearchEvaluation[] = [];
+
+  for (const savedSearch of savedSearches) {
+    let alerted = 0;
+
+    try {
+      if (isExpired(savedSearch.query as ListingSearchQuery, now)) {
+        continue;
+      }
+
+      const params = parseListingSearch(
+        savedSearch.query as ListingSearchQuery
+      );
+      const candidates = listings
+        .filter((listing) => mightMatchListing(params, listing))
+        .map((listing) => listing.id);
+
+      const matches =
+        candidates.length > 0
+          ? await findMatchingListingIds(params, { listingIds: candidates })
+          : [];
+      const alerts = await recordMatches(
+        savedSearch.id,
+        listingIds,
+        matches,
+        now
+      );
+
+      if (alerts.length > 0) {
+        const listings: { id: string; title: string; city: string | null }[] =
+          await prisma.listing.findMany({
+            where: { id: { in: alerts.map((alert) => alert.listingId) } },
+            select: { id: true, title: true, city: true },
+          });
+        const listingsById = new Map(
+          listings.map((listing) => [listing.id, listing])
+        );
+
+        for (const alert of alerts) {
+          const listing = listingsById.get(alert.listingId);
+          if (listing) {
+            await deliverAlert(savedSearch, alert, listing);
+            alerted += 1;
+          }
+        }
+      }
+
+      await prisma.savedSearch.update({
+        where: { id: savedSearch.id },
+        data: { lastEvaluatedAt: now },
+      });
+    } catch (err) {
+      // One broken search must not block alerts for everyone else.
+      // eslint-disable-next-line no-console
+      console.error("Error evaluating saved search", {
+        savedSearchId: savedSearch.id,
+        error: err,
+      });
+    }
+
+    results.push({ savedSearchId: savedSearch.id, alerted });
+  }
+
+  return results;
+}
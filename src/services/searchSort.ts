@@ -0,0 +1,124 @@
+export type SearchSort =
+  | "newest"
+  | "price_asc"
+  | "price_desc"
+  | "monthly_price"
+  | "distance"
+  | "commute"
+  | "bedrooms"
+  | "recently_synced"
+  | "relevance";
+
+export const SEARCH_SORTS: SearchSort[] = [
+  "newest",
+  "price_asc",
+  "price_desc",
+  "monthly_price",
+  "distance",
+  "commute",
+  "bedrooms",
+  "recently_synced",
+  "relevance",
+];
+
+// Sorts that put the largest value first; the rest are ascending.
+const DESCENDING_SORTS = new Set<SearchSort>([
+  "newest",
+  "price_desc",
+  "bedrooms",
+  "recently_synced",
+  "relevance",
+]);
+
+export type SortKey = {
+  id: string;
+  // Null sorts last in either direction (e.g. a listing without a price).
+  value: number | null;
+};
+
+type SearchCursor = SortKey & { sort: SearchSort };
+
+export function isDescendingSort(sort: SearchSort): boolean {
+  return DESCENDING_SORTS.has(sort);
+}
+
+export function parseSearchSort(value: string): SearchSort | null {
+  return SEARCH_SORTS.includes(value as SearchSort)
+    ? (value as SearchSort)
+    : null;
+}
+
+// Total order: the sort value, then listing id so ties are stable across pages.
+export function compareSortKeys(
+  sort: SearchSort,
+  a: SortKey,
+  b: SortKey
+): number {
+  if (a.value !== b.value) {
+    if (a.value == null) {
+      return 1;
+    }
+    if (b.value == null) {
+      return -1;
+    }
+    const diff = a.value - b.value;
+    return DESCENDING_SORTS.has(sort) ? -diff : diff;
+  }
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Cursors carry the last row's sort key rather than an offset, so rows a sync
+ * inserts or removes mid-browse can't shift later pages.
+ */
+export function encodeSearchCursor(sort: SearchSort, key: SortKey): string {
+  const cursor: SearchCursor = { sort, id: key.id, value: key.value };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+
+    if (
+      typeof parsed !== "object" ||
+      parsed == null ||
+      !parseSearchSort(parsed.sort) ||
+      typeof parsed.id !== "string" ||
+      (parsed.value !== null && typeof parsed.value !== "number")
+    ) {
+      return null;
+    }
+
+    return { sort: parsed.sort, id: parsed.id, value: parsed.value };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One page of keys after `cursor` (or after `offset` keys without one), plus
+ * the cursor for the following page if there is one.
+ */
+export function paginateSortKeys<T extends SortKey>(
+  sort: SearchSort,
+  keys: T[],
+  cursor: SortKey | null,
+  limit: number,
+  offset = 0
+): { page: T[]; nextCursor: string | null } {
+  const sorted = [...keys].sort((a, b) => compareSortKeys(sort, a, b));
+  const remaining = cursor
+    ? sorted.filter((key) => compareSortKeys(sort, key, cursor) > 0)
+    : sorted.slice(offset);
+
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    page,
+    nextCursor:
+      last && remaining.length > limit ? encodeSearchCursor(sort, last) : null,
+  };
+}
@@ -0,0 +1,257 @@
+import crypto from "crypto";
+import { Shortlist } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import {
+  LISTING_CARD_SELECT,
+  ListingCard,
+  addFavorite,
+  toListingCard,
+} from "./favorites";
+
+export const MAX_SHORTLISTS_PER_GUEST = 50;
+export const MAX_SHORTLIST_NAME_LENGTH = 100;
+
+export class ShortlistError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "ShortlistError";
+  }
+}
+
+type ShortlistWithItems = Shortlist & {
+  items: {
+    position: number;
+    addedAt: Date;
+    favorite: { note: string | null; listing: ListingCard };
+  }[];
+};
+
+const ITEMS_INCLUDE = {
+  items: {
+    orderBy: [{ position: "asc" }, { addedAt: "asc" }],
+    select: {
+      position: true,
+      addedAt: true,
+      favorite: {
+        select: { note: true, listing: { select: LISTING_CARD_SELECT } },
+      },
+    },
+  },
+};
+
+export function normalizeShortlistName(name: unknown): string {
+  if (typeof name !== "string" || !name.trim()) {
+    throw new ShortlistError("name is required", 400);
+  }
+  if (name.trim().length > MAX_SHORTLIST_NAME_LENGTH) {
+    throw new ShortlistError(
+      `name can be at most ${MAX_SHORTLIST_NAME_LENGTH} characters`,
+      400
+    );
+  }
+  return name.trim();
+}
+
+function toShortlistResponse(shortlist: ShortlistWithItems) {
+  const { items, ...rest } = shortlist;
+  return {
+    ...rest,
+    listings: items.map((item) => ({
+      ...toListingCard(item.favorite.listing),
+      note: item.favorite.note,
+      addedAt: item.addedAt,
+    })),
+  };
+}
+
+// What a share link reveals: the name and listings, nothing about the guest
+// (favorite notes are private to them).
+function toSharedShortlistResponse(shortlist: ShortlistWithItems) {
+  const { name, updatedAt, items } = shortlist;
+  return {
+    name,
+    updatedAt,
+    listings: items
+      .filter((item) => item.favorite.listing.status === "active")
+      .map((item) => toListingCard(item.favorite.listing)),
+  };
+}
+
+async function getOwnedShortlist(
+  guestId: string,
+  id: string
+): Promise<Shortlist> {
+  const shortlist = await prisma.shortlist.findUnique({ where: { id } });
+  if (!shortlist || shortlist.guestId !== guestId) {
+    throw new ShortlistError("Shortlist not found", 404);
+  }
+  return shortlist;
+}
+
+export async function createShortlist(guestId: string, name: unknown) {
+  const normalizedName = normalizeShortlistName(name);
+
+  const existing = await prisma.shortlist.count({ where: { guestId } });
+  if (existing >= MAX_SHORTLISTS_PER_GUEST) {
+    throw new ShortlistError(
+      `A guest can have at most ${MAX_SHORTLISTS_PER_GUEST} shortlists`,
+      409
+    );
+  }
+
+  const shortlist: ShortlistWithItems = await prisma.shortlist.create({
+    data: { guestId, name: normalizedName },
+    include: ITEMS_INCLUDE,
+  });
+
+  return toShortlistResponse(shortlist);
+}
+
+export async function listShortlists(guestId: string) {
+  const shortlists: (Shortlist & { _count: { items: number } })[] =
+    await prisma.shortlist.findMany({
+      where: { guestId },
+      orderBy: { createdAt: "desc" },
+      include: { _count: { select: { items: true } } },
+    });
+
+  return shortlists.map(({ _count, ...shortlist }) => ({
+    ...shortlist,
+    listingCount: _count.items,
+  }));
+}
+
+export async function getShortlist(guestId: string, id: string) {
+  await getOwnedShortlist(guestId, id);
+
+  const shortlist: ShortlistWithItems = await prisma.shortlist.findUnique({
+    where: { id },
+    include: ITEMS_INCLUDE,
+  });
+
+  return toShortlistResponse(shortlist);
+}
+
+export async function renameShortlist(
+  guestId: string,
+  id: string,
+  name: unknown
+) {
+  await getOwnedShortlist(guestId, id);
+
+  const shortlist: ShortlistWithItems = await prisma.shortlist.update({
+    where: { id },
+    data: { name: normalizeShortlistName(name) },
+    include: ITEMS_INCLUDE,
+  });
+
+  return toShortlistResponse(shortlist);
+}
+
+export async function deleteShortlist(
+  guestId: string,
+  id: string
+): Promise<void> {
+  await getOwnedShortlist(guestId, id);
+  await prisma.shortlist.delete({ where: { id } });
+}
+
+/**
+ * Adds a listing to a shortlist, favoriting it first if needed, so every
+ * shortlisted listing also shows up (with its change flags) in favorites.
+ */
+export async function addListingToShortlist(
+  guestId: string,
+  id: string,
+  listingId: string
+) {
+  await getOwnedShortlist(guestId, id);
+
+  const favorite = await addFavorite(guestId, listingId);
+
+  const last = await prisma.shortlistItem.findFirst({
+    where: { shortlistId: id },
+    orderBy: { position: "desc" },
+    select: { position: true },
+  });
+
+  await prisma.shortlistItem.createMany({
+    data: [
+      {
+        shortlistId: id,
+        favoriteId: favorite.id,
+        position: (last?.position ?? -1) + 1,
+      },
+    ],
+    skipDuplicates: true,
+  });
+
+  // Bumps updatedAt, which the shared view shows as "last changed".
+  const shortlist: ShortlistWithItems = await prisma.shortlist.update({
+    where: { id },
+    data: { updatedAt: new Date() },
+    include: ITEMS_INCLUDE,
+  });
+
+  return toShortlistResponse(shortlist);
+}
+
+// The listing stays favorited; only its place in this shortlist goes.
+export async function removeListingFromShortlist(
+  guestId: string,
+  id: string,
+  listingId: string
+) {
+  await getOwnedShortlist(guestId, id);
+
+  const result = await prisma.shortlistItem.deleteMany({
+    where: { shortlistId: id, favorite: { listingId } },
+  });
+
+  if (result.count === 0) {
+    throw new ShortlistError("Listing is not on this shortlist", 404);
+  }
+
+  const shortlist: ShortlistWithItems = await prisma.shortlist.update({
+    where: { id },
+    data: { updatedAt: new Date() },
+    include: ITEMS_INCLUDE,
+  });
+
+  return toShortlistResponse(shortlist);
+}
+
+/**
+ * Turns the read-only share link on (a fresh token each time, so re-sharing
+ * revokes the old link) or off.
+ */
+export async function setShortlistSharing(
+  guestId: string,
+  id: string,
+  shared: boolean
+): Promise<{ shareToken: string | null }> {
+  await getOwnedShortlist(guestId, id);
+
+  const shortlist: Shortlist = await prisma.shortlist.update({
+    where: { id },
+    data: {
+      shareToken: shared ? crypto.randomBytes(24).toString("hex") : null,
+    },
+  });
+
+  return { shareToken: shortlist.shareToken };
+}
+
+export async function getSharedShortlist(token: string) {
+  const shortlist: ShortlistWithItems | null =
+    await prisma.shortlist.findUnique({
+      where: { shareToken: token },
+      include: ITEMS_INCLUDE,
+    });
+
+  if (!shortlist) {
+    throw new ShortlistError("Shortlist not found", 404);
+  }
+
+  return toSharedShortlistResponse(shortlist);
+}
@@ -0,0 +1,110 @@
+import { Prisma } from "@prisma/client";
+import { NIGHTS_PER_MONTH, countNights } from "./stayQuote";
+
+export type StayPricing = {
+  nights: number;
+  averageNightlyRate: number;
+  monthlyRate: number;
+  total: number;
+};
+
+export type StayPriceFilter = {
+  minNightly?: number;
+  maxNightly?: number;
+  minMonthly?: number;
+  maxMonthly?: number;
+};
+
+/**
+ * Price factor of the longest length-of-stay tier a stay of `nights`
+ * qualifies for (tiers do not stack), or 1. Same rule as
+ * selectLengthOfStayTier in stayQuote.ts; expects the listing as `l`.
+ */
+export function lengthOfStayFactorSql(nights: number): Prisma.Sql {
+  return Prisma.sql`COALESCE((
+    SELECT t."priceFactor"
+    FROM "LengthOfStayDiscount" t
+    WHERE t."listingId" = l."id" AND t."minNights" <= ${nights}
+    ORDER BY t."minNights" DESC
+    LIMIT 1
+  ), 1)`;
+}
+
+// roundMoney in SQL, on the same float8 values, so search and stayQuote agree
+// to the cent (Math.round(x) is floor(x + 0.5)).
+function roundMoneySql(value: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`(floor((${value})::float8 * 100 + 0.5) / 100)`;
+}
+
+/**
+ * JOIN clauses keeping only listings where every night in [startDate,
+ * endDate) is synced, available and not held by a booking request, and the
+ * check-in night's minStay is satisfied. Exposes the discounted pricing as
+ * `stay."total"`, `stay."averageNightlyRate"` and `stay."monthlyRate"`,
+ * computed step by step like buildStayQuote: each night rounded, summed in
+ * date order, then discounted and rounded. Expects the listing as `l`; the
+ * lateral form means only listings that pass the other filters get their
+ * nights summed.
+ */
+export function stayPricingJoinSql(startDate: Date, endDate: Date): Prisma.Sql {
+  const nights = countNights(startDate, endDate);
+  const nightPrice = Prisma.sql`COALESCE(d."price", l."basePrice")`;
+
+  return Prisma.sql`
+    JOIN LATERAL (
+      SELECT SUM(${roundMoneySql(nightPrice)} ORDER BY d."date") AS "subtotal"
+      FROM "CalendarDay" d
+      WHERE d."listingId" = l."id"
+        AND d."date" >= ${startDate} AND d."date" < ${endDate}
+      HAVING COUNT(*) = ${nights}
+        AND bool_and(d."available" AND d."holdBookingRequestId" IS NULL)
+        AND bool_and(${nightPrice} IS NOT NULL)
+        AND COALESCE(
+              MAX(d."minStay") FILTER (WHERE d."date" = ${startDate}),
+              l."minStayNights",
+              0
+            ) <= ${nights}
+    ) stay_nights ON true
+    CROSS JOIN LATERAL (
+      SELECT ${roundMoneySql(
+        Prisma.sql`stay_nights."subtotal" * ${lengthOfStayFactorSql(nights)}`
+      )} AS "total"
+    ) stay_total
+    CROSS JOIN LATERAL (
+      SELECT ${roundMoneySql(
+        Prisma.sql`stay_total."total" / ${nights}::int`
+      )} AS "nightly"
+    ) stay_nightly
+    CROSS JOIN LATERAL (
+      SELECT stay_total."total",
+             stay_nightly."nightly" AS "averageNightlyRate",
+             ${roundMoneySql(
+               Prisma.sql`stay_nightly."nightly" * ${NIGHTS_PER_MONTH}::int`
+             )} AS "monthlyRate"
+    ) stay
+  `;
+}
+
+// Conditions on the columns stayPricingJoinSql exposes.
+export function stayPriceFilterSql(filter: StayPriceFilter): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filter.minNightly != null) {
+    conditions.push(
+      Prisma.sql`stay."averageNightlyRate" >= ${filter.minNightly}`
+    );
+  }
+  if (filter.maxNightly != null) {
+    conditions.push(
+      Prisma.sql`stay."averageNightlyRate" <= ${filter.maxNightly}`
+    );
+  }
+  if (filter.minMonthly != null) {
+    conditions.push(Prisma.sql`stay."monthlyRate" >= ${filter.minMonthly}`);
+  }
+  if (filter.maxMonthly != null) {
+    conditions.push(Prisma.sql`stay."monthlyRate" <= ${filter.maxMonthly}`);
+  }
+
+  return conditions;
+}
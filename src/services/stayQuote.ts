@@ -0,0 +1,327 @@
+import { prisma } from "../lib/prisma";
+
+export const MIN_QUOTE_NIGHTS = 30;
+export const MAX_QUOTE_NIGHTS = 180;
+
+export const NIGHTS_PER_MONTH = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type QuoteRefusalCode =
+  | "stay_too_short"
+  | "stay_too_long"
+  | "too_many_guests"
+  | "min_stay_not_met"
+  | "calendar_missing"
+  | "unavailable"
+  | "on_hold"
+  | "price_missing";
+
+export type QuoteRefusal = {
+  code: QuoteRefusalCode;
+  message: string;
+  date?: string;
+};
+
+export type QuoteNight = {
+  date: string;
+  price: number | null;
+  available: boolean;
+  minStay: number | null;
+};
+
+export type AppliedDiscount = {
+  minNights: number;
+  priceFactor: number;
+  amount: number;
+};
+
+export type StayQuote = {
+  listingId: string;
+  startDate: string;
+  endDate: string;
+  nights: number;
+  guests: number | null;
+  bookable: boolean;
+  reasons: QuoteRefusal[];
+  nightly: QuoteNight[];
+  subtotal: number | null;
+  discount: AppliedDiscount | null;
+  total: number | null;
+  averageNightlyRate: number | null;
+  monthlyRate: number | null;
+};
+
+export type StayQuoteRequest = {
+  startDate: Date;
+  endDate: Date;
+  guests?: number;
+};
+
+type QuoteListing = {
+  id: string;
+  basePrice: number | null;
+  minStayNights: number | null;
+  maxGuests: number | null;
+};
+
+export type LengthOfStayTier = {
+  minNights: number;
+  priceFactor: number;
+};
+
+type QuoteCalendarDay = {
+  date: Date;
+  available: boolean;
+  price: number | null;
+  minStay: number | null;
+  holdBookingRequestId?: string | null;
+};
+
+function startOfDayUtc(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+function toDateKey(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+// stayPricingJoinSql repeats this rounding in SQL; keep the two in step.
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Picks the longest tier the stay qualifies for; tiers do not stack.
+export function selectLengthOfStayTier(
+  tiers: LengthOfStayTier[],
+  nights: number
+): LengthOfStayTier | null {
+  let best: LengthOfStayTier | null = null;
+
+  for (const tier of tiers) {
+    if (tier.minNights <= nights && (!best || tier.minNights > best.minNights)) {
+      best = tier;
+    }
+  }
+
+  return best;
+}
+
+// Accepts `YYYY-MM-DD` (or any string Date understands) and normalizes to midnight UTC.
+export function parseStayDate(value: unknown): Date | null {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+
+  return startOfDayUtc(parsed);
+}
+
+// Number of nights between check-in and check-out (check-out day is not a night).
+export function countNights(startDate: Date, endDate: Date): number {
+  return Math.round(
+    (startOfDayUtc(endDate).getTime() - startOfDayUtc(startDate).getTime()) /
+      DAY_MS
+  );
+}
+
+export function buildStayQuote(
+  listing: QuoteListing,
+  calendarDays: QuoteCalendarDay[],
+  request: StayQuoteRequest,
+  losTiers: LengthOfStayTier[] = []
+): StayQuote {
+  const start = startOfDayUtc(request.startDate);
+  const end = startOfDayUtc(request.endDate);
+  const nights = countNights(start, end);
+  const reasons: QuoteRefusal[] = [];
+
+  if (nights < MIN_QUOTE_NIGHTS) {
+    reasons.push({
+      code: "stay_too_short",
+      message: `Stays must be at least ${MIN_QUOTE_NIGHTS} nights`,
+    });
+  }
+
+  if (nights > MAX_QUOTE_NIGHTS) {
+    reasons.push({
+      code: "stay_too_long",
+      message: `Stays can be at most ${MAX_QUOTE_NIGHTS} nights`,
+    });
+  }
+
+  if (
+    request.guests != null &&
+    listing.maxGuests != null &&
+    request.guests > listing.maxGuests
+  ) {
+    reasons.push({
+      code: "too_many_guests",
+      message: `Listing accommodates at most ${listing.maxGuests} guests`,
+    });
+  }
+
+  const daysByDate = new Map<string, QuoteCalendarDay>();
+  for (const day of calendarDays) {
+    daysByDate.set(toDateKey(startOfDayUtc(new Date(day.date))), day);
+  }
+
+  const nightly: QuoteNight[] = [];
+  let subtotal = 0;
+  let priced = true;
+
+  // Only walk the calendar for ranges we would actually quote.
+  const walkNights = Math.min(Math.max(nights, 0), MAX_QUOTE_NIGHTS);
+
+  for (let i = 0; i < walkNights; i += 1) {
+    const date = toDateKey(new Date(start.getTime() + i * DAY_MS));
+    const day = daysByDate.get(date);
+
+    if (!day) {
+      reasons.push({
+        code: "calendar_missing",
+        message: "No synced availability for this night",
+        date,
+      });
+      nightly.push({ date, price: null, available: false, minStay: null });
+      priced = false;
+      continue;
+    }
+
+    const held = day.holdBookingRequestId != null;
+
+    if (!day.available) {
+      reasons.push({
+        code: "unavailable",
+        message: "Night is not available",
+        date,
+      });
+    } else if (held) {
+      reasons.push({
+        code: "on_hold",
+        message: "Night is held for another booking request",
+        date,
+      });
+    }
+
+    const rawPrice = day.price ?? listing.basePrice;
+    const price =
+      rawPrice != null && Number.isFinite(Number(rawPrice))
+        ? roundMoney(Number(rawPrice))
+        : null;
+
+    if (price == null) {
+      reasons.push({
+        code: "price_missing",
+        message: "No price is set for this night",
+        date,
+      });
+      priced = false;
+    } else {
+      subtotal += price;
+    }
+
+    nightly.push({
+      date,
+      price,
+      available: day.available && !held,
+      minStay: day.minStay ?? null,
+    });
+  }
+
+  // Guesty applies the minimum stay of the check-in night; fall back to the listing default.
+  const requiredMinStay =
+    nightly[0]?.minStay ?? listing.minStayNights ?? null;
+
+  if (requiredMinStay != null && nights < requiredMinStay) {
+    reasons.push({
+      code: "min_stay_not_met",
+      message: `Check-in on ${toDateKey(start)} requires at least ${requiredMinStay} nights`,
+      date: toDateKey(start),
+    });
+  }
+
+  const hasTotals = priced && nightly.length > 0 && nightly.length === nights;
+
+  const tier = hasTotals ? selectLengthOfStayTier(losTiers, nights) : null;
+  const total = hasTotals
+    ? roundMoney(subtotal * (tier?.priceFactor ?? 1))
+    : null;
+  const discount: AppliedDiscount | null =
+    tier && total != null
+      ? {
+          minNights: tier.minNights,
+          priceFactor: tier.priceFactor,
+          amount: roundMoney(subtotal - total),
+        }
+      : null;
+
+  const averageNightlyRate =
+    total != null ? roundMoney(total / nights) : null;
+
+  return {
+    listingId: listing.id,
+    startDate: toDateKey(start),
+    endDate: toDateKey(end),
+    nights,
+    guests: request.guests ?? null,
+    bookable: reasons.length === 0,
+    reasons,
+    nightly,
+    subtotal: hasTotals ? roundMoney(subtotal) : null,
+    discount,
+    total,
+    averageNightlyRate,
+    monthlyRate:
+      averageNightlyRate != null
+        ? roundMoney(averageNightlyRate * NIGHTS_PER_MONTH)
+        : null,
+  };
+}
+
+export async function quoteStayForListing(
+  listingId: string,
+  request: StayQuoteRequest
+): Promise<StayQuote | null> {
+  const listing = await prisma.listing.findFirst({
+    where: { id: listingId, status: "active" },
+    select: {
+      id: true,
+      basePrice: true,
+      minStayNights: true,
+      maxGuests: true,
+    },
+  });
+
+  if (!listing) {
+    return null;
+  }
+
+  const start = startOfDayUtc(request.startDate);
+  const end = startOfDayUtc(request.endDate);
+
+  const calendarDays = await prisma.calendarDay.findMany({
+    where: {
+      listingId,
+      date: { gte: start, lt: end },
+    },
+    orderBy: { date: "asc" },
+    select: {
+      date: true,
+      available: true,
+      price: true,
+      minStay: true,
+      holdBookingRequestId: true,
+    },
+  });
+
+  const losTiers = await prisma.lengthOfStayDiscount.findMany({
+    where: { listingId },
+    select: { minNights: true, priceFactor: true },
+  });
+
+  return buildStayQuote(listing, calendarDays, request, losTiers);
+}
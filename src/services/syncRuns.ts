@@ -0,0 +1,140 @@
+import { SyncRun } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+
+export type SyncRunType =
+  | "sync-listings"
+  | "sync-single-listing"
+  | "sync-calendar";
+
+export type SyncRunStatus = "running" | "succeeded" | "failed";
+
+export type SyncRunInput = {
+  hostId: string;
+  type: SyncRunType;
+  listingId?: string | null;
+  mode?: string | null;
+  jobId?: string | null;
+  attempt?: number;
+};
+
+export type SyncRunCounts = {
+  listingsUpserted?: number;
+  daysUpserted?: number;
+};
+
+export const SYNC_RUN_TYPES: SyncRunType[] = [
+  "sync-listings",
+  "sync-single-listing",
+  "sync-calendar",
+];
+
+export const SYNC_RUN_STATUSES: SyncRunStatus[] = [
+  "running",
+  "succeeded",
+  "failed",
+];
+
+/**
+ * Records a sync run around `run`. The run is marked failed and the error
+ * rethrown so the queue's retry policy still applies.
+ */
+export async function trackSyncRun<T>(
+  input: SyncRunInput,
+  run: () => Promise<T>,
+  countsOf: (result: T) => SyncRunCounts
+): Promise<T> {
+  const syncRun = await prisma.syncRun.create({
+    data: {
+      hostId: input.hostId,
+      type: input.type,
+      listingId: input.listingId ?? null,
+      mode: input.mode ?? null,
+      jobId: input.jobId ?? null,
+      attempt: input.attempt ?? 1,
+    },
+  });
+
+  try {
+    const result = await run();
+    const counts = countsOf(result);
+
+    await prisma.syncRun.update({
+      where: { id: syncRun.id },
+      data: {
+        status: "succeeded",
+        listingsUpserted: counts.listingsUpserted ?? 0,
+        daysUpserted: counts.daysUpserted ?? 0,
+        finishedAt: new Date(),
+      },
+    });
+
+    return result;
+  } catch (err) {
+    await prisma.syncRun
+      .update({
+        where: { id: syncRun.id },
+        data: {
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+          finishedAt: new Date(),
+        },
+      })
+      .catch((updateErr: unknown) => {
+        // eslint-disable-next-line no-console
+        console.error("Failed to record sync run failure", updateErr);
+      });
+
+    throw err;
+  }
+}
+
+export async function listSyncRuns(
+  hostId: string,
+  filter: { type?: SyncRunType; status?: SyncRunStatus },
+  limit: number
+): Promise<SyncRun[]> {
+  return prisma.syncRun.findMany({
+    where: {
+      hostId,
+      ...(filter.type ? { type: filter.type } : {}),
+      ...(filter.status ? { status: filter.status } : {}),
+    },
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+}
+
+// Runs still in progress plus the most recent finished run of each type.
+export async function getSyncStatus(hostId: string): Promise<{
+  running: SyncRun[];
+  latest: Partial<Record<SyncRunType, SyncRun>>;
+}> {
+  const running: SyncRun[] = await prisma.syncRun.findMany({
+    where: { hostId, status: "running" },
+    orderBy: { startedAt: "desc" },
+  });
+
+  const latest: Partial<Record<SyncRunType, SyncRun>> = {};
+
+  for (const type of SYNC_RUN_TYPES) {
+    const run: SyncRun | null = await prisma.syncRun.findFirst({
+      where: { hostId, type, status: { not: "running" } },
+      orderBy: { startedAt: "desc" },
+    });
+    if (run) {
+      latest[type] = run;
+    }
+  }
+
+  return { running, latest };
+}
+
+export async function listSyncRunsForJob(
+  hostId: string,
+  jobId: string
+): Promise<SyncRun[]> {
+  return prisma.syncRun.findMany({
+    where: { hostId, jobId },
+    orderBy: { startedAt: "asc" },
+  });
+}
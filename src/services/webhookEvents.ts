@@ -0,0 +1,337 @@
+import { IncomingHttpHeaders } from "http";
+import { Prisma, WebhookEvent } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { enqueueSyncJob } from "../jobs/syncQueue";
+import { deactivateListingByGuestyId } from "./listingSync";
+import {
+  GuestyReservation,
+  upsertReservationFromGuesty,
+} from "./reservationSync";
+
+export type GuestyWebhookBody = Record<string, any>;
+
+export type WebhookEventStatus = "received" | "processed" | "ignored" | "failed";
+
+export type WebhookEventFilter = {
+  status?: WebhookEventStatus;
+  eventType?: string;
+  from?: Date;
+  to?: Date;
+};
+
+const MAX_REPLAY_BATCH = 500;
+
+// Never persist credentials that might ride along on the delivery.
+const REDACTED_HEADERS = new Set(["authorization", "cookie"]);
+
+const LISTING_EVENTS = new Set([
+  "listing.created",
+  "listing.updated",
+]);
+
+const LISTING_REMOVED_EVENTS = new Set([
+  "listing.removed",
+]);
+
+const RESERVATION_EVENTS = new Set([
+  "reservation.created",
+  "reservation.updated",
+  "reservation.cancelled",
+]);
+
+type HandledEvent = {
+  eventType: string;
+  handled: boolean;
+  hostId: string | null;
+  listingId: string | null;
+};
+
+async function resolveHostIdFromPayload(
+  body: GuestyWebhookBody
+): Promise<string | null> {
+  const accountId: string | undefined =
+    body.accountId ??
+    body.account_id ??
+    body.integrationId ??
+    body.integration_id ??
+    body.account ??
+    body.accountID;
+
+  if (!accountId) {
+    return null;
+  }
+
+  const host = await prisma.host.findUnique({
+    where: { guestyAccountId: accountId },
+    select: { id: true },
+  });
+
+  return host?.id ?? null;
+}
+
+function extractGuestyListingId(body: GuestyWebhookBody): string | null {
+  const fromListing =
+    body.listing?._id ??
+    body.listing?.id ??
+    body.listingId ??
+    body.listing_id;
+
+  const fromReservation =
+    body.reservation?.listing?._id ??
+    body.reservation?.listing?.id ??
+    body.reservation?.listingId ??
+    body.reservation?.listing_id;
+
+  const topLevel =
+    body._id ??
+    body.id;
+
+  return (
+    fromListing ??
+    fromReservation ??
+    topLevel ??
+    null
+  );
+}
+
+function eventTypeOf(body: GuestyWebhookBody): string {
+  return (body.event ?? body.type ?? "").toString();
+}
+
+async function handleGuestyEvent(
+  body: GuestyWebhookBody
+): Promise<HandledEvent> {
+  const eventType = eventTypeOf(body);
+
+  if (LISTING_EVENTS.has(eventType)) {
+    const hostId = await resolveHostIdFromPayload(body);
+    const guestyListingId = extractGuestyListingId(body);
+
+    const listing = guestyListingId
+      ? await prisma.listing.findUnique({
+          where: { guestyId: guestyListingId },
+          select: { id: true },
+        })
+      : null;
+
+    if (hostId != null && guestyListingId) {
+      await enqueueSyncJob("sync-single-listing", {
+        hostId,
+        guestyListingId,
+      });
+    }
+
+    return {
+      eventType,
+      handled: hostId != null && guestyListingId != null,
+      hostId,
+      listingId: listing?.id ?? null,
+    };
+  }
+
+  if (LISTING_REMOVED_EVENTS.has(eventType)) {
+    const guestyListingId = extractGuestyListingId(body);
+
+    const listing = guestyListingId
+      ? await prisma.listing.findUnique({
+          where: { guestyId: guestyListingId },
+          select: { id: true, hostId: true },
+        })
+      : null;
+
+    if (listing && guestyListingId) {
+      await deactivateListingByGuestyId(guestyListingId);
+    }
+
+    return {
+      eventType,
+      handled: listing != null,
+      hostId: listing?.hostId ?? null,
+      listingId: listing?.id ?? null,
+    };
+  }
+
+  if (RESERVATION_EVENTS.has(eventType)) {
+    const guestyListingId = extractGuestyListingId(body);
+
+    const listing = guestyListingId
+      ? await prisma.listing.findUnique({
+          where: { guestyId: guestyListingId },
+          select: { id: true, hostId: true },
+        })
+      : null;
+
+    const hostId =
+      listing?.hostId ?? (await resolveHostIdFromPayload(body));
+
+    const reservation = (body.reservation ?? body) as GuestyReservation;
+
+    await upsertReservationFromGuesty(reservation, {
+      eventType,
+      hostId,
+      listingId: listing?.id ?? null,
+    });
+
+    if (listing) {
+      await enqueueSyncJob("sync-calendar", {
+        listingId: listing.id,
+      });
+    }
+
+    return {
+      eventType,
+      handled: true,
+      hostId,
+      listingId: listing?.id ?? null,
+    };
+  }
+
+  return { eventType, handled: false, hostId: null, listingId: null };
+}
+
+function sanitizeHeaders(headers: IncomingHttpHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (value == null || REDACTED_HEADERS.has(name.toLowerCase())) {
+      continue;
+    }
+    result[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+
+  return result;
+}
+
+/**
+ * Stores an inbound delivery before it is processed. Returns null if a
+ * delivery with the same id was already stored (a retry or a replay attack).
+ */
+export async function recordWebhookEvent(
+  eventId: string,
+  rawBody: string,
+  headers: IncomingHttpHeaders
+): Promise<WebhookEvent | null> {
+  let eventType: string | null = null;
+  try {
+    eventType = eventTypeOf(JSON.parse(rawBody) as GuestyWebhookBody) || null;
+  } catch {
+    // Stored anyway so the failure is visible; processing will mark it failed.
+  }
+
+  try {
+    return await prisma.webhookEvent.create({
+      data: {
+        eventId,
+        eventType,
+        rawBody,
+        headers: sanitizeHeaders(headers),
+      },
+    });
+  } catch (err) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Runs a stored event through the handlers and records the outcome. Errors are
+ * captured on the row rather than thrown, so callers can always acknowledge.
+ */
+export async function processWebhookEvent(
+  event: WebhookEvent
+): Promise<WebhookEvent> {
+  let status: WebhookEventStatus;
+  let error: string | null = null;
+  let hostId = event.hostId;
+  let listingId = event.listingId;
+  let eventType = event.eventType;
+
+  try {
+    const body = JSON.parse(event.rawBody) as GuestyWebhookBody;
+    const result = await handleGuestyEvent(body);
+
+    status = result.handled ? "processed" : "ignored";
+    eventType = result.eventType || eventType;
+    hostId = result.hostId ?? hostId;
+    listingId = result.listingId ?? listingId;
+  } catch (err) {
+    status = "failed";
+    error = err instanceof Error ? err.message : String(err);
+
+    // eslint-disable-next-line no-console
+    console.error("Error handling Guesty webhook", {
+      error: err,
+      eventId: event.eventId,
+      eventType,
+    });
+  }
+
+  return prisma.webhookEvent.update({
+    where: { id: event.id },
+    data: {
+      status,
+      error,
+      eventType,
+      hostId,
+      listingId,
+      attempts: { increment: 1 },
+      processedAt: new Date(),
+    },
+  });
+}
+
+function buildEventWhere(filter: WebhookEventFilter) {
+  return {
+    ...(filter.status ? { status: filter.status } : {}),
+    ...(filter.eventType ? { eventType: filter.eventType } : {}),
+    ...(filter.from || filter.to
+      ? {
+          receivedAt: {
+            ...(filter.from ? { gte: filter.from } : {}),
+            ...(filter.to ? { lt: filter.to } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+export async function listWebhookEvents(
+  filter: WebhookEventFilter,
+  limit: number
+): Promise<WebhookEvent[]> {
+  return prisma.webhookEvent.findMany({
+    where: buildEventWhere(filter),
+    orderBy: { receivedAt: "desc" },
+    take: limit,
+  });
+}
+
+export async function replayWebhookEvent(
+  id: string
+): Promise<WebhookEvent | null> {
+  const event = await prisma.webhookEvent.findUnique({ where: { id } });
+  return event ? processWebhookEvent(event) : null;
+}
+
+// Replays matching events oldest-first so state converges in delivery order.
+export async function replayWebhookEvents(
+  filter: WebhookEventFilter
+): Promise<WebhookEvent[]> {
+  const events: WebhookEvent[] = await prisma.webhookEvent.findMany({
+    where: buildEventWhere(filter),
+    orderBy: { receivedAt: "asc" },
+    take: MAX_REPLAY_BATCH,
+  });
+
+  const results: WebhookEvent[] = [];
+  for (const event of events) {
+    results.push(await processWebhookEvent(event));
+  }
+
+  return results;
+}
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  boundingBoxAround,
+  haversineKm,
+  isInBoundingBox,
+  parseBoundingBox,
+  parseLatLng,
+} from "../../src/lib/geo";
+
+const AUSTIN = { lat: 30.2672, lng: -97.7431 };
+const DALLAS = { lat: 32.7767, lng: -96.797 };
+
+describe("parseLatLng and parseBoundingBox", () => {
+  it("parses valid values", () => {
+    assert.deepEqual(parseLatLng("30.2672,-97.7431"), AUSTIN);
+    assert.deepEqual(parseBoundingBox("-98,30,-97,31"), {
+      minLng: -98,
+      minLat: 30,
+      maxLng: -97,
+      maxLat: 31,
+    });
+  });
+
+  it("rejects out-of-range or malformed values", () => {
+    assert.equal(parseLatLng("91,0"), null);
+    assert.equal(parseLatLng("0,181"), null);
+    assert.equal(parseLatLng("30.1"), null);
+    assert.equal(parseLatLng(undefined), null);
+    assert.equal(parseBoundingBox("-98,31,-97,30"), null);
+    assert.equal(parseBoundingBox("-98,30,-97"), null);
+  });
+});
+
+describe("haversineKm", () => {
+  it("measures great-circle distance", () => {
+    assert.equal(haversineKm(AUSTIN, AUSTIN), 0);
+    // Austin to Dallas is roughly 292 km in a straight line
+    assert.ok(Math.abs(haversineKm(AUSTIN, DALLAS) - 292) < 2);
+    // A degree of latitude is ~111 km anywhere
+    assert.ok(
+      Math.abs(haversineKm({ lat: 0, lng: 0 }, { lat: 1, lng: 0 }) - 111.2) <
+        0.1
+    );
+  });
+
+  it("takes the short way across the antimeridian", () => {
+    const distance = haversineKm(
+      { lat: 0, lng: 179.5 },
+      { lat: 0, lng: -179.5 }
+    );
+    assert.ok(Math.abs(distance - 111.2) < 0.1);
+  });
+});
+
+describe("boundingBoxAround and isInBoundingBox", () => {
+  it("contains every point within the radius", () => {
+    const box = boundingBoxAround(AUSTIN, 50);
+
+    for (let bearing = 0; bearing < 360; bearing += 15) {
+      const radians = (bearing * Math.PI) / 180;
+      // ~49 km in each direction
+      const point = {
+        lat: AUSTIN.lat + (49 / 111.32) * Math.cos(radians),
+        lng:
+          AUSTIN.lng +
+          (49 / (111.32 * Math.cos((AUSTIN.lat * Math.PI) / 180))) *
+            Math.sin(radians),
+      };
+      assert.ok(isInBoundingBox(point, box), `bearing ${bearing}`);
+    }
+
+    assert.equal(isInBoundingBox(DALLAS, box), false);
+  });
+
+  it("wraps across the antimeridian", () => {
+    const box = boundingBoxAround({ lat: 0, lng: 179.9 }, 50);
+
+    assert.ok(box.minLng > box.maxLng);
+    assert.ok(isInBoundingBox({ lat: 0, lng: -179.9 }, box));
+    assert.ok(isInBoundingBox({ lat: 0, lng: 179.8 }, box));
+    assert.equal(isInBoundingBox({ lat: 0, lng: 0 }, box), false);
+  });
+
+  it("spans every longitude near the poles", () => {
+    const box = boundingBoxAround({ lat: 89.9, lng: 10 }, 50);
+    assert.equal(box.minLng, -180);
+    assert.equal(box.maxLng, 180);
+    assert.equal(box.maxLat, 90);
+  });
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { describe, it } from "node:test";
+import {
+  WEBHOOK_TOLERANCE_SECONDS,
+  verifyGuestyWebhookSignature,
+} from "../../src/lib/webhookSignature";
+
+const SECRET_BYTES = Buffer.from("test-webhook-secret");
+const SECRET = `whsec_${SECRET_BYTES.toString("base64")}`;
+const NOW = new Date("2026-03-01T12:00:00Z");
+const BODY = Buffer.from(JSON.stringify({ event: "reservation.new" }));
+
+function sign(id: string, timestamp: string, body: Buffer): string {
+  return crypto
+    .createHmac("sha256", SECRET_BYTES)
+    .update(`${id}.${timestamp}.`)
+    .update(body)
+    .digest("base64");
+}
+
+function headers(overrides: Record<string, string> = {}) {
+  const timestamp = String(NOW.getTime() / 1000);
+  return {
+    "svix-id": "msg_1",
+    "svix-timestamp": timestamp,
+    "svix-signature": `v1,${sign("msg_1", timestamp, BODY)}`,
+    ...overrides,
+  };
+}
+
+describe("verifyGuestyWebhookSignature", () => {
+  it("accepts a correctly signed delivery", () => {
+    assert.deepEqual(
+      verifyGuestyWebhookSignature(BODY, headers(), SECRET, NOW),
+      { ok: true, eventId: "msg_1", timestamp: NOW }
+    );
+  });
+
+  it("accepts any matching signature in the list", () => {
+    const signature = headers()["svix-signature"];
+    const result = verifyGuestyWebhookSignature(
+      BODY,
+      headers({ "svix-signature": `v1,bm90LWl0 ${signature}` }),
+      SECRET,
+      NOW
+    );
+    assert.equal(result.ok, true);
+  });
+
+  it("accepts the unbranded webhook-* headers", () => {
+    const { "svix-id": id, ...rest } = headers();
+    const result = verifyGuestyWebhookSignature(
+      BODY,
+      {
+        "webhook-id": id,
+        "webhook-timestamp": rest["svix-timestamp"],
+        "webhook-signature": rest["svix-signature"],
+      },
+      SECRET,
+      NOW
+    );
+    assert.equal(result.ok, true);
+  });
+
+  it("rejects a modified body", () => {
+    assert.deepEqual(
+      verifyGuestyWebhookSignature(
+        Buffer.from(JSON.stringify({ event: "reservation.updated" })),
+        headers(),
+        SECRET,
+        NOW
+      ),
+      { ok: false, reason: "signature mismatch" }
+    );
+  });
+
+  it("rejects the wrong secret", () => {
+    const result = verifyGuestyWebhookSignature(
+      BODY,
+      headers(),
+      "whsec_" + Buffer.from("other").toString("base64"),
+      NOW
+    );
+    assert.deepEqual(result, { ok: false, reason: "signature mismatch" });
+  });
+
+  it("rejects timestamps outside the tolerance", () => {
+    const later = new Date(
+      NOW.getTime() + (WEBHOOK_TOLERANCE_SECONDS + 1) * 1000
+    );
+    assert.deepEqual(
+      verifyGuestyWebhookSignature(BODY, headers(), SECRET, later),
+      { ok: false, reason: "stale timestamp" }
+    );
+  });
+
+  it("rejects missing headers and unknown signature versions", () => {
+    const { "svix-signature": _signature, ...unsigned } = headers();
+    assert.deepEqual(
+      verifyGuestyWebhookSignature(BODY, unsigned, SECRET, NOW),
+      { ok: false, reason: "missing signature headers" }
+    );
+
+    const v2 = headers()["svix-signature"].replace("v1,", "v2,");
+    assert.deepEqual(
+      verifyGuestyWebhookSignature(
+        BODY,
+        headers({ "svix-signature": v2 }),
+        SECRET,
+        NOW
+      ),
+      { ok: false, reason: "signature mismatch" }
+    );
+  });
+});
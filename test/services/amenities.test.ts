@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  amenityFacetsFromCounts,
+  normalizeAmenities,
+  parseAmenityFilter,
+  tallyAmenityFacets,
+} from "../../src/services/amenities";
+
+describe("normalizeAmenities", () => {
+  it("maps Guesty strings to canonical keys in taxonomy order", () => {
+    assert.deepEqual(
+      normalizeAmenities([
+        "Free parking on premises",
+        "Wireless Internet",
+        "Laptop-friendly workspace",
+        "Washing Machine",
+        "Air conditioning",
+      ]),
+      ["wifi", "workspace", "washer", "parking", "air_conditioning"]
+    );
+  });
+
+  it("only treats in-unit laundry as a washer", () => {
+    assert.deepEqual(normalizeAmenities(["In-unit laundry"]), ["washer"]);
+    assert.deepEqual(normalizeAmenities(["Laundry"]), []);
+  });
+
+  it("drops unknown strings and duplicates", () => {
+    assert.deepEqual(
+      normalizeAmenities(["Hot tub", "", "TV", "Smart TV", "Cable TV"]),
+      ["tv"]
+    );
+  });
+});
+
+describe("parseAmenityFilter", () => {
+  it("accepts comma-separated and repeated keys", () => {
+    assert.deepEqual(parseAmenityFilter(["washer,parking", " wifi "]), [
+      "washer",
+      "parking",
+      "wifi",
+    ]);
+    assert.deepEqual(parseAmenityFilter(undefined), []);
+  });
+
+  it("rejects anything outside the taxonomy", () => {
+    assert.equal(parseAmenityFilter("washer,hot_tub"), null);
+  });
+});
+
+describe("amenity facets", () => {
+  it("counts every key, including ones no listing has", () => {
+    const facets = tallyAmenityFacets([["wifi", "washer"], ["wifi"], []]);
+
+    assert.equal(facets.find((facet) => facet.key === "wifi")?.count, 2);
+    assert.equal(facets.find((facet) => facet.key === "washer")?.count, 1);
+    assert.equal(facets.find((facet) => facet.key === "pool")?.count, 0);
+    assert.equal(
+      facets.find((facet) => facet.key === "washer")?.label,
+      "In-unit laundry"
+    );
+  });
+
+  it("ignores unknown keys from the database", () => {
+    const facets = amenityFacetsFromCounts([
+      { key: "gym", count: 3 },
+      { key: "hot_tub", count: 9 },
+    ]);
+
+    assert.equal(facets.find((facet) => facet.key === "gym")?.count, 3);
+    assert.ok(facets.every((facet) => facet.key !== ("hot_tub" as string)));
+  });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  MAX_WORKPLACES,
+  commuteBandForMinutes,
+  commuteBandMaxMinutes,
+  estimateCommute,
+  estimateCommuteMinutes,
+  maxDistanceKmForMinutes,
+  parseCommuteBand,
+  parseWorkplaces,
+} from "../../src/services/commute";
+
+describe("commute bands", () => {
+  it("puts each band's upper bound in that band", () => {
+    assert.equal(commuteBandForMinutes(0), "under_15");
+    assert.equal(commuteBandForMinutes(15), "under_15");
+    assert.equal(commuteBandForMinutes(16), "15_30");
+    assert.equal(commuteBandForMinutes(30), "15_30");
+    assert.equal(commuteBandForMinutes(45), "30_45");
+    assert.equal(commuteBandForMinutes(60), "45_60");
+    assert.equal(commuteBandForMinutes(61), "over_60");
+    assert.equal(commuteBandForMinutes(500), "over_60");
+  });
+
+  it("parses band names and exposes their limits", () => {
+    assert.equal(parseCommuteBand("30_45"), "30_45");
+    assert.equal(parseCommuteBand("45"), null);
+    assert.equal(commuteBandMaxMinutes("30_45"), 45);
+    assert.equal(commuteBandMaxMinutes("over_60"), Number.POSITIVE_INFINITY);
+  });
+});
+
+describe("commute estimates", () => {
+  it("includes the fixed overhead at zero distance", () => {
+    assert.equal(estimateCommuteMinutes(0), 5);
+  });
+
+  it("agrees with the prefilter distance for every minute", () => {
+    for (let minutes = 5; minutes <= 120; minutes += 1) {
+      const distance = maxDistanceKmForMinutes(minutes);
+      assert.ok(estimateCommuteMinutes(distance - 0.01) <= minutes);
+      assert.ok(estimateCommuteMinutes(distance + 0.01) > minutes);
+    }
+  });
+
+  it("reports distance, minutes and band together", () => {
+    const estimate = estimateCommute(
+      { lat: 30.2672, lng: -97.7431 },
+      { lat: 30.2672, lng: -97.7431 }
+    );
+    assert.deepEqual(estimate, {
+      workplace: { lat: 30.2672, lng: -97.7431 },
+      distanceKm: 0,
+      estimatedMinutes: 5,
+      band: "under_15",
+    });
+  });
+});
+
+describe("parseWorkplaces", () => {
+  it("accepts repeated and ;-separated points", () => {
+    assert.deepEqual(parseWorkplaces(["30,-97", "31,-98;32,-99"]), [
+      { lat: 30, lng: -97 },
+      { lat: 31, lng: -98 },
+      { lat: 32, lng: -99 },
+    ]);
+    assert.deepEqual(parseWorkplaces(undefined), []);
+  });
+
+  it("rejects malformed points and too many workplaces", () => {
+    assert.equal(parseWorkplaces("30,-97;nope"), null);
+    assert.equal(
+      parseWorkplaces(Array(MAX_WORKPLACES + 1).fill("30,-97")),
+      null
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CONTACT_DETAILS_PLACEHOLDER,
+  redactContactDetails,
+} from "../../src/services/conversations";
+
+function redacts(text: string): void {
+  const result = redactContactDetails(text);
+  assert.equal(result.redacted, true, text);
+  assert.ok(result.body.includes(CONTACT_DETAILS_PLACEHOLDER), text);
+}
+
+function keeps(text: string): void {
+  assert.deepEqual(
+    redactContactDetails(text),
+    { body: text, redacted: false },
+    text
+  );
+}
+
+describe("redactContactDetails", () => {
+  it("hides email addresses", () => {
+    assert.deepEqual(
+      redactContactDetails("Write to jane.doe+rent@example.com"),
+      { body: `Write to ${CONTACT_DETAILS_PLACEHOLDER}`, redacted: true }
+    );
+  });
+
+  it("hides grouped phone numbers", () => {
+    redacts("Call me at 555-123-4567");
+    redacts("Call me at (555) 123 4567");
+    redacts("Call me at 555.123.4567 after 6");
+    redacts("Call me at +1 555 123 4567");
+    redacts("Mon portable : 06 12 34 56 78");
+  });
+
+  it("hides bare digit runs with a country code", () => {
+    redacts("WhatsApp +15551234567");
+    redacts("Ring +44 20 7946 0958");
+    redacts("Ring +447946095812");
+  });
+
+  it("keeps the rest of the message", () => {
+    assert.equal(
+      redactContactDetails("Text 555-123-4567 about the lease").body,
+      `Text ${CONTACT_DETAILS_PLACEHOLDER} about the lease`
+    );
+  });
+
+  it("leaves dates and year ranges alone", () => {
+    keeps("Arriving 2025-03-01, leaving 2025-06-30");
+    keeps("Arriving 03/01/2025 or 01.03.2025");
+    keeps("Looking for a lease for 2025-2026");
+    keeps("A lease from 2025 to 2026, or 2025 2026");
+    keeps("Any time between 2025-2026-2027");
+  });
+
+  it("leaves amounts, codes and account numbers alone", () => {
+    keeps("My budget is 1500000 for the year");
+    keeps("Between 300-1500 a week, 1 500 000 in total");
+    keeps("Confirmation code 4839201756 and reference HM12345678901");
+    keeps("My IBAN ends in DE89 3704 0044 0532 0130 00");
+    keeps("Unit 12, 3 bedrooms, 2 bathrooms, 45 minutes to downtown");
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  SortKey,
+  compareSortKeys,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  paginateSortKeys,
+} from "../../src/services/searchSort";
+
+describe("search cursors", () => {
+  it("round-trips the sort and key", () => {
+    const cursor = encodeSearchCursor("price_asc", { id: "b", value: 120.5 });
+    assert.deepEqual(decodeSearchCursor(cursor), {
+      sort: "price_asc",
+      id: "b",
+      value: 120.5,
+    });
+
+    const nullValue = encodeSearchCursor("distance", { id: "c", value: null });
+    assert.deepEqual(decodeSearchCursor(nullValue), {
+      sort: "distance",
+      id: "c",
+      value: null,
+    });
+  });
+
+  it("rejects tampered or malformed cursors", () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    assert.equal(decodeSearchCursor("not base64 json"), null);
+    assert.equal(decodeSearchCursor(encode(null)), null);
+    assert.equal(
+      decodeSearchCursor(encode({ sort: "random", id: "a", value: 1 })),
+      null
+    );
+    assert.equal(
+      decodeSearchCursor(encode({ sort: "newest", id: 1, value: 1 })),
+      null
+    );
+    assert.equal(
+      decodeSearchCursor(encode({ sort: "newest", id: "a", value: "1" })),
+      null
+    );
+  });
+});
+
+describe("compareSortKeys", () => {
+  it("orders by value in the sort's direction, then by id", () => {
+    const a = { id: "a", value: 1 };
+    const b = { id: "b", value: 2 };
+    const c = { id: "c", value: 2 };
+
+    assert.ok(compareSortKeys("price_asc", a, b) < 0);
+    assert.ok(compareSortKeys("price_desc", a, b) > 0);
+    assert.ok(compareSortKeys("price_asc", b, c) < 0);
+    assert.ok(compareSortKeys("price_desc", b, c) < 0);
+  });
+
+  it("puts missing values last in either direction", () => {
+    const priced = { id: "b", value: 10 };
+    const unpriced = { id: "a", value: null };
+
+    assert.ok(compareSortKeys("price_asc", unpriced, priced) > 0);
+    assert.ok(compareSortKeys("price_desc", unpriced, priced) > 0);
+  });
+});
+
+describe("paginateSortKeys", () => {
+  const keys = [
+    { id: "d", value: null },
+    { id: "c", value: 300 },
+    { id: "a", value: 100 },
+    { id: "e", value: 200 },
+    { id: "b", value: 200 },
+  ];
+
+  it("walks every key exactly once across pages", () => {
+    const seen: string[] = [];
+    let cursor: SortKey | null = null;
+
+    for (let pages = 0; pages < 10; pages += 1) {
+      const result = paginateSortKeys("price_asc", keys, cursor, 2);
+      seen.push(...result.page.map((key) => key.id));
+      if (!result.nextCursor) {
+        break;
+      }
+      cursor = decodeSearchCursor(result.nextCursor);
+    }
+
+    assert.deepEqual(seen, ["a", "b", "e", "c", "d"]);
+  });
+
+  it("isn't shifted by rows inserted before the cursor", () => {
+    const first = paginateSortKeys("price_asc", keys, null, 2);
+    const cursor = decodeSearchCursor(first.nextCursor!);
+
+    const second = paginateSortKeys(
+      "price_asc",
+      [...keys, { id: "z", value: 50 }],
+      cursor,
+      2
+    );
+
+    assert.deepEqual(
+      second.page.map((key) => key.id),
+      ["e", "c"]
+    );
+  });
+
+  it("supports offsets without a cursor and ends without a next cursor", () => {
+    const result = paginateSortKeys("price_desc", keys, null, 10, 3);
+    assert.deepEqual(
+      result.page.map((key) => key.id),
+      ["a", "d"]
+    );
+    assert.equal(result.nextCursor, null);
+  });
+});
@@ -0,0 +1,205 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildStayQuote,
+  countNights,
+  parseStayDate,
+  selectLengthOfStayTier,
+} from "../../src/services/stayQuote";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listing = {
+  id: "listing-1",
+  basePrice: 100,
+  minStayNights: null,
+  maxGuests: 4,
+};
+
+type CalendarDay = {
+  date: Date;
+  available: boolean;
+  price: number | null;
+  minStay: number | null;
+  holdBookingRequestId?: string | null;
+};
+
+function calendar(
+  startDate: string,
+  nights: number,
+  price: number | null
+): CalendarDay[] {
+  const start = new Date(startDate).getTime();
+  return Array.from({ length: nights }, (_, i) => ({
+    date: new Date(start + i * DAY_MS),
+    available: true,
+    price,
+    minStay: null,
+  }));
+}
+
+function stay(startDate: string, endDate: string, guests?: number) {
+  return {
+    startDate: new Date(startDate),
+    endDate: new Date(endDate),
+    ...(guests != null ? { guests } : {}),
+  };
+}
+
+describe("selectLengthOfStayTier", () => {
+  const tiers = [
+    { minNights: 7, priceFactor: 0.95 },
+    { minNights: 28, priceFactor: 0.85 },
+    { minNights: 90, priceFactor: 0.75 },
+  ];
+
+  it("picks the longest tier the stay qualifies for", () => {
+    assert.equal(selectLengthOfStayTier(tiers, 6), null);
+    assert.equal(selectLengthOfStayTier(tiers, 7)?.minNights, 7);
+    assert.equal(selectLengthOfStayTier(tiers, 60)?.minNights, 28);
+    assert.equal(selectLengthOfStayTier(tiers, 90)?.minNights, 90);
+  });
+
+  it("doesn't depend on tier order", () => {
+    assert.equal(
+      selectLengthOfStayTier([...tiers].reverse(), 45)?.minNights,
+      28
+    );
+  });
+});
+
+describe("parseStayDate and countNights", () => {
+  it("normalizes to midnight UTC", () => {
+    assert.equal(
+      parseStayDate("2026-03-01T18:30:00Z")?.toISOString(),
+      "2026-03-01T00:00:00.000Z"
+    );
+    assert.equal(parseStayDate("not a date"), null);
+    assert.equal(parseStayDate(20260301), null);
+  });
+
+  it("doesn't count the check-out day", () => {
+    assert.equal(
+      countNights(new Date("2026-03-01"), new Date("2026-03-31")),
+      30
+    );
+  });
+});
+
+describe("buildStayQuote", () => {
+  it("prices every night and derives the monthly rate", () => {
+    const quote = buildStayQuote(
+      listing,
+      calendar("2026-03-01", 30, 120),
+      stay("2026-03-01", "2026-03-31", 2)
+    );
+
+    assert.equal(quote.bookable, true);
+    assert.deepEqual(quote.reasons, []);
+    assert.equal(quote.nights, 30);
+    assert.equal(quote.subtotal, 3600);
+    assert.equal(quote.discount, null);
+    assert.equal(quote.total, 3600);
+    assert.equal(quote.averageNightlyRate, 120);
+    assert.equal(quote.monthlyRate, 3600);
+  });
+
+  it("falls back to the listing base price and rounds each night", () => {
+    const days = calendar("2026-03-01", 30, null);
+    days[0]!.price = 99.995;
+
+    const quote = buildStayQuote(
+      listing,
+      days,
+      stay("2026-03-01", "2026-03-31")
+    );
+
+    assert.equal(quote.nightly[0]?.price, 100);
+    assert.equal(quote.nightly[1]?.price, 100);
+    assert.equal(quote.subtotal, 3000);
+  });
+
+  it("applies the longest qualifying length-of-stay tier", () => {
+    const quote = buildStayQuote(
+      listing,
+      calendar("2026-01-01", 90, 100),
+      stay("2026-01-01", "2026-04-01"),
+      [
+        { minNights: 30, priceFactor: 0.9 },
+        { minNights: 90, priceFactor: 0.8 },
+      ]
+    );
+
+    assert.equal(quote.subtotal, 9000);
+    assert.deepEqual(quote.discount, {
+      minNights: 90,
+      priceFactor: 0.8,
+      amount: 1800,
+    });
+    assert.equal(quote.total, 7200);
+    assert.equal(quote.averageNightlyRate, 80);
+    assert.equal(quote.monthlyRate, 2400);
+  });
+
+  it("refuses stays outside the quotable length", () => {
+    const short = buildStayQuote(
+      listing,
+      calendar("2026-03-01", 10, 100),
+      stay("2026-03-01", "2026-03-11")
+    );
+    assert.equal(short.bookable, false);
+    assert.ok(short.reasons.some((r) => r.code === "stay_too_short"));
+
+    const long = buildStayQuote(
+      listing,
+      calendar("2026-01-01", 181, 100),
+      stay("2026-01-01", "2026-07-01")
+    );
+    assert.ok(long.reasons.some((r) => r.code === "stay_too_long"));
+    assert.equal(long.nightly.length, 180);
+    assert.equal(long.total, null);
+  });
+
+  it("reports missing, unavailable and held nights", () => {
+    const days = calendar("2026-03-01", 30, 100);
+    days[3]!.available = false;
+    days[4]!.holdBookingRequestId = "request-1";
+    days.splice(5, 1);
+
+    const quote = buildStayQuote(
+      listing,
+      days,
+      stay("2026-03-01", "2026-03-31")
+    );
+
+    assert.equal(quote.bookable, false);
+    assert.deepEqual(
+      quote.reasons.map((r) => [r.code, r.date]),
+      [
+        ["unavailable", "2026-03-04"],
+        ["on_hold", "2026-03-05"],
+        ["calendar_missing", "2026-03-06"],
+      ]
+    );
+    assert.equal(quote.nightly[4]?.available, false);
+    assert.equal(quote.total, null);
+  });
+
+  it("enforces the check-in night's minimum stay and guest count", () => {
+    const days = calendar("2026-03-01", 30, 100);
+    days[0]!.minStay = 60;
+
+    const quote = buildStayQuote(
+      listing,
+      days,
+      stay("2026-03-01", "2026-03-31", 6)
+    );
+
+    assert.deepEqual(quote.reasons.map((r) => r.code).sort(), [
+      "min_stay_not_met",
+      "too_many_guests",
+    ]);
+    // Refusals don't hide the price
+    assert.equal(quote.total, 3000);
+  });
+});
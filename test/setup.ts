@@ -0,0 +1,15 @@
+// Unit tests only cover code that doesn't talk to the database. Modules under
+// test may still import lib/prisma, so give it a client that fails loudly on
+// use instead of letting it construct a real one (and load the query engine).
+const globalForPrisma = globalThis as any;
+
+globalForPrisma.prisma = new Proxy(
+  {},
+  {
+    get(_target, property) {
+      throw new Error(
+        `Unit tests must not use the database (prisma.${String(property)})`
+      );
+    },
+  }
+);